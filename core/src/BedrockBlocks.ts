@@ -0,0 +1,167 @@
+import { BlockState } from "./BlockState";
+import { block, colors, facings, stairFacings, woods } from "./BlockNames";
+
+export type BedrockStates = { [key: string]: string | number }
+
+/** Converts the states of a Bedrock block to a Java block state, or returns undefined if they can't be mapped */
+export type BedrockBlockMapping = (states: BedrockStates) => BlockState | undefined
+
+/** Maps Bedrock block names, including their namespace, to Java block states */
+export type BedrockBlockTable = { [name: string]: BedrockBlockMapping }
+
+function simple(name: string, properties?: { [key: string]: string }): BedrockBlockMapping {
+  return () => block(name, properties)
+}
+
+/** Maps a variant state to one of several Java blocks */
+function variant(key: string, variants: { [value: string]: string }, fallback?: string): BedrockBlockMapping {
+  return states => {
+    const value = states[key] ?? fallback
+    const name = value === undefined ? undefined : variants[value]
+    return name === undefined ? undefined : block(name)
+  }
+}
+
+function woodVariants(suffix: string) {
+  const variants: { [value: string]: string } = {}
+  woods.forEach(wood => variants[wood] = `${wood}_${suffix}`)
+  return variants
+}
+
+function stairs(name: string): BedrockBlockMapping {
+  return states => {
+    const facing = stairFacings[states.weirdo_direction as number ?? 0]
+    if (facing === undefined) return undefined
+    return block(name, {
+      facing,
+      half: states.upside_down_bit ? 'top' : 'bottom',
+      shape: 'straight',
+      waterlogged: 'false',
+    })
+  }
+}
+
+function colored(suffix: string): BedrockBlockMapping {
+  return states => {
+    const color = states.color === 'silver' ? 'light_gray' : states.color ?? 'white'
+    return colors.includes(color as string) ? block(`${color}_${suffix}`) : undefined
+  }
+}
+
+function fluid(name: string): BedrockBlockMapping {
+  return states => block(name, { level: `${states.liquid_depth ?? 0}` })
+}
+
+function horizontal(name: string, properties: { [key: string]: string } = {}): BedrockBlockMapping {
+  return states => {
+    const facing = facings[states.facing_direction as number ?? 2]
+    if (facing === undefined || facing === 'up' || facing === 'down') return undefined
+    return block(name, { facing, ...properties })
+  }
+}
+
+function pillar(name: string): BedrockBlockMapping {
+  return states => block(name, { axis: `${states.pillar_axis ?? 'y'}` })
+}
+
+function createTable() {
+  const table: BedrockBlockTable = {}
+  const add = (name: string, mapping: BedrockBlockMapping) => table[`minecraft:${name}`] = mapping
+  add('air', simple('air'))
+  add('stone', variant('stone_type', {
+    stone: 'stone',
+    granite: 'granite',
+    granite_smooth: 'polished_granite',
+    diorite: 'diorite',
+    diorite_smooth: 'polished_diorite',
+    andesite: 'andesite',
+    andesite_smooth: 'polished_andesite',
+  }, 'stone'))
+  ;['granite', 'polished_granite', 'diorite', 'polished_diorite', 'andesite', 'polished_andesite', 'cobblestone',
+    'mossy_cobblestone', 'bedrock', 'gravel', 'gold_ore', 'iron_ore', 'coal_ore', 'diamond_ore', 'emerald_ore',
+    'lapis_ore', 'glass', 'obsidian', 'crafting_table', 'bookshelf', 'glowstone', 'netherrack', 'soul_sand',
+    'end_stone', 'gold_block', 'iron_block', 'diamond_block', 'emerald_block', 'lapis_block', 'redstone_block',
+    'coal_block', 'clay', 'ice', 'packed_ice', 'sponge', 'sea_lantern',
+  ].forEach(name => add(name, simple(name)))
+  add('snow', simple('snow_block'))
+  add('slime', simple('slime_block'))
+  add('melon_block', simple('melon'))
+  add('grass', simple('grass_block', { snowy: 'false' }))
+  add('dirt', variant('dirt_type', { normal: 'dirt', coarse: 'coarse_dirt' }, 'normal'))
+  add('planks', variant('wood_type', woodVariants('planks'), 'oak'))
+  woods.forEach(wood => add(`${wood}_planks`, simple(`${wood}_planks`)))
+  add('log', states => {
+    const wood = states.old_log_type ?? 'oak'
+    return woods.slice(0, 4).includes(wood as string) ? block(`${wood}_log`, { axis: `${states.pillar_axis ?? 'y'}` }) : undefined
+  })
+  add('log2', states => {
+    const wood = states.new_log_type ?? 'acacia'
+    return woods.slice(4).includes(wood as string) ? block(`${wood}_log`, { axis: `${states.pillar_axis ?? 'y'}` }) : undefined
+  })
+  woods.forEach(wood => add(`${wood}_log`, pillar(`${wood}_log`)))
+  add('leaves', states => {
+    const wood = states.old_leaf_type ?? 'oak'
+    return woods.slice(0, 4).includes(wood as string)
+      ? block(`${wood}_leaves`, { distance: '7', persistent: states.persistent_bit ? 'true' : 'false' })
+      : undefined
+  })
+  add('leaves2', states => {
+    const wood = states.new_leaf_type ?? 'acacia'
+    return woods.slice(4).includes(wood as string)
+      ? block(`${wood}_leaves`, { distance: '7', persistent: states.persistent_bit ? 'true' : 'false' })
+      : undefined
+  })
+  add('water', fluid('water'))
+  add('flowing_water', fluid('water'))
+  add('lava', fluid('lava'))
+  add('flowing_lava', fluid('lava'))
+  add('sand', variant('sand_type', { normal: 'sand', red: 'red_sand' }, 'normal'))
+  add('sandstone', variant('sand_stone_type', { default: 'sandstone', heiroglyphs: 'chiseled_sandstone', cut: 'cut_sandstone', smooth: 'smooth_sandstone' }, 'default'))
+  add('stonebrick', variant('stone_brick_type', { default: 'stone_bricks', mossy: 'mossy_stone_bricks', cracked: 'cracked_stone_bricks', chiseled: 'chiseled_stone_bricks' }, 'default'))
+  add('brick_block', simple('bricks'))
+  add('nether_brick', simple('nether_bricks'))
+  add('red_nether_brick', simple('red_nether_bricks'))
+  add('quartz_block', states => {
+    switch (states.chisel_type ?? 'default') {
+      case 'default': return block('quartz_block')
+      case 'chiseled': return block('chiseled_quartz_block')
+      case 'smooth': return block('smooth_quartz')
+      case 'lines': return block('quartz_pillar', { axis: `${states.pillar_axis ?? 'y'}` })
+    }
+    return undefined
+  })
+  add('hay_block', pillar('hay_block'))
+  add('wool', colored('wool'))
+  add('concrete', colored('concrete'))
+  add('concrete_powder', colored('concrete_powder'))
+  add('stained_glass', colored('stained_glass'))
+  add('stained_hardened_clay', colored('terracotta'))
+  add('carpet', colored('carpet'))
+  add('hardened_clay', simple('terracotta'))
+  add('oak_stairs', stairs('oak_stairs'))
+  add('stone_stairs', stairs('cobblestone_stairs'))
+  add('brick_stairs', stairs('brick_stairs'))
+  add('stone_brick_stairs', stairs('stone_brick_stairs'))
+  add('nether_brick_stairs', stairs('nether_brick_stairs'))
+  add('sandstone_stairs', stairs('sandstone_stairs'))
+  add('quartz_stairs', stairs('quartz_stairs'))
+  add('purpur_stairs', stairs('purpur_stairs'))
+  ;['spruce', 'birch', 'jungle', 'acacia', 'dark_oak'].forEach(wood => add(`${wood}_stairs`, stairs(`${wood}_stairs`)))
+  add('glass_pane', simple('glass_pane', { east: 'false', north: 'false', south: 'false', waterlogged: 'false', west: 'false' }))
+  add('iron_bars', simple('iron_bars', { east: 'false', north: 'false', south: 'false', waterlogged: 'false', west: 'false' }))
+  add('fence', variant('wood_type', woodVariants('fence'), 'oak'))
+  add('chest', horizontal('chest', { type: 'single', waterlogged: 'false' }))
+  add('furnace', horizontal('furnace', { lit: 'false' }))
+  add('lit_furnace', horizontal('furnace', { lit: 'true' }))
+  add('ladder', horizontal('ladder', { waterlogged: 'false' }))
+  add('torch', states => {
+    const direction = states.torch_facing_direction ?? 'top'
+    if (direction === 'top') return block('torch')
+    return ['north', 'south', 'west', 'east'].includes(direction as string)
+      ? block('wall_torch', { facing: direction as string })
+      : undefined
+  })
+  return table
+}
+
+export const bedrockBlocks: BedrockBlockTable = createTable()
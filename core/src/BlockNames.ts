@@ -0,0 +1,11 @@
+import { BlockState } from "./BlockState";
+
+/** Names in the order of their legacy data values, shared by the legacy and Bedrock tables */
+export const colors = ['white', 'orange', 'magenta', 'light_blue', 'yellow', 'lime', 'pink', 'gray', 'light_gray', 'cyan', 'purple', 'blue', 'brown', 'green', 'red', 'black']
+export const woods = ['oak', 'spruce', 'birch', 'jungle', 'acacia', 'dark_oak']
+export const stairFacings = ['east', 'west', 'south', 'north']
+export const facings = ['down', 'up', 'north', 'south', 'west', 'east']
+
+export function block(name: string, properties?: { [key: string]: string }) {
+  return new BlockState(`minecraft:${name}`, properties)
+}
@@ -0,0 +1,124 @@
+import { BlockState } from "./BlockState";
+
+export type BlockRegistryEntry = {
+  properties: { [key: string]: string[] }
+  default: { [key: string]: string }
+}
+
+/** The format of `reports/blocks.json`, generated by the vanilla server */
+export type BlockReport = {
+  [name: string]: {
+    properties?: { [key: string]: string[] }
+    states: { id: number, properties?: { [key: string]: string }, default?: boolean }[]
+  }
+}
+
+export type BlockStateViolation = {
+  type: 'unknown_block' | 'unknown_property' | 'illegal_value'
+  property?: string
+  message: string
+}
+
+export class BlockStateError extends Error {
+  constructor(
+    public readonly violations: BlockStateViolation[]
+  ) {
+    super(violations.map(v => v.message).join('\n'))
+    this.name = 'BlockStateError'
+  }
+}
+
+export class BlockRegistry {
+  constructor(
+    private blocks: { [name: string]: BlockRegistryEntry } = {}
+  ) {}
+
+  public has(name: string) {
+    return Object.prototype.hasOwnProperty.call(this.blocks, name)
+  }
+
+  public getNames() {
+    return Object.keys(this.blocks)
+  }
+
+  public getBlockProperties(name: string) {
+    return this.has(name) ? this.blocks[name].properties : null
+  }
+
+  public getDefaultBlockProperties(name: string) {
+    return this.has(name) ? this.blocks[name].default : null
+  }
+
+  public getDefaultState(name: string) {
+    const properties = this.getDefaultBlockProperties(name)
+    if (properties === null) {
+      throw new BlockStateError([unknownBlock(name)])
+    }
+    return new BlockState(name, { ...properties })
+  }
+
+  public validate(state: BlockState): BlockStateViolation[] {
+    const name = state.getName()
+    const definition = this.getBlockProperties(name)
+    if (definition === null) {
+      return [unknownBlock(name)]
+    }
+    const violations: BlockStateViolation[] = []
+    const properties = state.getProperties()
+    Object.keys(properties).forEach(property => {
+      const value = properties[property]
+      const values = Object.prototype.hasOwnProperty.call(definition, property) ? definition[property] : undefined
+      if (values === undefined) {
+        violations.push({ type: 'unknown_property', property, message: `Unknown property '${property}' for block ${name}` })
+      } else if (!values.includes(value)) {
+        violations.push({ type: 'illegal_value', property, message: `Illegal value '${value}' for property '${property}' of block ${name}, expected one of ${values.join(', ')}` })
+      }
+    })
+    return violations
+  }
+
+  public assertValid(state: BlockState) {
+    const violations = this.validate(state)
+    if (violations.length > 0) {
+      throw new BlockStateError(violations)
+    }
+  }
+
+  /** Returns a new state with the missing properties set to their defaults, or the same state if none are missing */
+  public withDefaults(state: BlockState) {
+    const defaults = this.getDefaultBlockProperties(state.getName())
+    const properties = state.getProperties()
+    if (defaults === null || Object.keys(defaults).every(k => properties[k] !== undefined)) {
+      return state
+    }
+    return new BlockState(state.getName(), { ...defaults, ...properties })
+  }
+
+  /** Returns every combination of property values, with the last property changing fastest */
+  public getStates(name: string) {
+    const definition = this.getBlockProperties(name)
+    if (definition === null) {
+      throw new BlockStateError([unknownBlock(name)])
+    }
+    let combinations: { [key: string]: string }[] = [{}]
+    Object.keys(definition).forEach(property => {
+      combinations = combinations.reduce<{ [key: string]: string }[]>((acc, c) =>
+        [...acc, ...definition[property].map(value => ({ ...c, [property]: value }))], [])
+    })
+    return combinations.map(properties => new BlockState(name, properties))
+  }
+
+  public static fromReport(report: BlockReport) {
+    const blocks: { [name: string]: BlockRegistryEntry } = {}
+    Object.keys(report).forEach(name => {
+      const { properties = {}, states } = report[name]
+      const defaultState = states.find(s => s.default) ?? states[0]
+      blocks[name] = { properties, default: { ...defaultState?.properties } }
+    })
+    return new BlockRegistry(blocks)
+  }
+}
+
+function unknownBlock(name: string): BlockStateViolation {
+  return { type: 'unknown_block', message: `Unknown block ${name}` }
+}
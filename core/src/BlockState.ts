@@ -1,4 +1,19 @@
-import { getOptional, getTag, NamedNbtTag } from "@webmc/nbt"
+import { getOptional, getTag, NamedNbtTag, Nbt, parseSnbt, SnbtParseError, stringifySnbt } from "@webmc/nbt"
+import { BlockNbt } from "./StructureProvider";
+import { Mirror, mirrorProperties, Rotation, rotateProperties } from "./Transform";
+
+export class BlockStateParseError extends Error {
+  constructor(
+    message: string,
+    public readonly offset: number
+  ) {
+    super(`${message} at column ${offset + 1}`)
+    this.name = 'BlockStateParseError'
+  }
+}
+
+const pathPattern = /[a-z0-9_.\-\/]/
+const propertyPattern = /[0-9A-Za-z_\-.+]/
 
 export class BlockState {
   constructor(
@@ -27,8 +42,65 @@ export class BlockState {
     })
   }
 
-  public toString() {
-    return `${this.name}[${Object.entries(this.properties).map(([k, v]) => k + '=' + v).join(',')}]`
+  /** Transforms direction dependent properties, such as `facing`, `axis` and `rotation` */
+  public rotate(rotation: Rotation) {
+    return new BlockState(this.name, rotateProperties(this.properties, rotation))
+  }
+
+  /** Also swaps left and right in properties such as stair shapes, door hinges and chest types */
+  public mirror(mirror: Mirror) {
+    return new BlockState(this.name, mirrorProperties(this.properties, mirror))
+  }
+
+  /**
+   * Returns the state in the format of commands, with sorted properties and
+   * the block entity data as SNBT if given
+   */
+  public toString(nbt?: BlockNbt) {
+    const keys = Object.keys(this.properties).sort()
+    const properties = keys.length === 0 ? '' : `[${keys.map(k => `${k}=${this.properties[k]}`).join(',')}]`
+    const data = nbt ? stringifySnbt({ type: 'compound', value: nbt }) : ''
+    return `${this.name}${properties}${data}`
+  }
+
+  public toNbt(): NamedNbtTag {
+    const properties = Object.keys(this.properties).length === 0 ? undefined
+      : Nbt.compound(Object.keys(this.properties)
+        .reduce((acc, k) => ({...acc, [k]: Nbt.string(this.properties[k])}), {}))
+    return { name: '', value: Nbt.compound({
+      Name: Nbt.string(this.name),
+      Properties: properties
+    }).value }
+  }
+
+  /**
+   * Parses a state like `oak_stairs[facing=east]`, defaulting to the
+   * `minecraft` namespace. Throws a `BlockStateParseError` for invalid input.
+   */
+  public static parse(text: string) {
+    const { state, nbt } = BlockState.parseWithNbt(text)
+    if (nbt) {
+      throw new BlockStateParseError('Unexpected block entity data', text.indexOf('{'))
+    }
+    return state
+  }
+
+  /**
+   * Like `parse`, but also accepts block entity data as SNBT after the
+   * properties, like the `setblock` command
+   */
+  public static parseWithNbt(text: string): { state: BlockState, nbt?: BlockNbt } {
+    const reader = new StateReader(text)
+    reader.skipWhitespace()
+    const name = reader.name()
+    reader.skipWhitespace()
+    const properties = reader.peek() === '[' ? reader.properties() : {}
+    reader.skipWhitespace()
+    const nbt = reader.peek() === '{' ? reader.nbt() : undefined
+    if (reader.canRead()) {
+      throw reader.error('Trailing data after block state')
+    }
+    return { state: new BlockState(name, properties), nbt }
   }
 
   public static fromNbt(nbt: NamedNbtTag) {
@@ -39,3 +111,110 @@ export class BlockState {
     return new BlockState(name, properties)
   }
 }
+
+class StateReader {
+  public cursor = 0
+
+  constructor(private text: string) {}
+
+  canRead() {
+    return this.cursor < this.text.length
+  }
+
+  peek() {
+    return this.text.charAt(this.cursor)
+  }
+
+  skipWhitespace() {
+    while (this.canRead() && /\s/.test(this.peek())) {
+      this.cursor += 1
+    }
+  }
+
+  error(message: string, offset = this.cursor) {
+    return new BlockStateParseError(message, offset)
+  }
+
+  name() {
+    const start = this.cursor
+    let namespace = 'minecraft'
+    let path = this.read(pathPattern)
+    if (this.peek() === ':') {
+      if (path.includes('/')) {
+        throw this.error('Invalid character \'/\' in namespace', start + path.indexOf('/'))
+      }
+      namespace = path || namespace
+      this.cursor += 1
+      path = this.read(pathPattern)
+    }
+    if (path === '') {
+      throw this.error(this.canRead() ? `Invalid character '${this.peek()}' in block name` : 'Expected block name')
+    }
+    return `${namespace}:${path}`
+  }
+
+  properties() {
+    const properties: { [key: string]: string } = {}
+    this.cursor += 1
+    this.skipWhitespace()
+    if (this.peek() === ']') {
+      this.cursor += 1
+      return properties
+    }
+    while (true) {
+      this.skipWhitespace()
+      const start = this.cursor
+      const key = this.read(propertyPattern)
+      if (key === '') {
+        throw this.error('Expected property name')
+      }
+      if (key in properties) {
+        throw this.error(`Duplicate property '${key}'`, start)
+      }
+      this.skipWhitespace()
+      this.expect('=')
+      this.skipWhitespace()
+      const value = this.read(propertyPattern)
+      if (value === '') {
+        throw this.error(`Expected value for property '${key}'`)
+      }
+      properties[key] = value
+      this.skipWhitespace()
+      if (this.peek() === ']') {
+        this.cursor += 1
+        return properties
+      }
+      this.expect(',')
+    }
+  }
+
+  /** The block entity data is always last, so it's parsed until the end */
+  nbt(): BlockNbt {
+    const start = this.cursor
+    try {
+      const tag = parseSnbt(this.text.slice(start))
+      this.cursor = this.text.length
+      return tag.type === 'compound' ? tag.value : {}
+    } catch (e) {
+      if (e instanceof SnbtParseError) {
+        throw this.error(`Invalid block entity data: ${e.reason}`, start + e.offset)
+      }
+      throw e
+    }
+  }
+
+  private expect(char: string) {
+    if (this.peek() !== char) {
+      throw this.error(this.canRead() ? `Expected '${char}' but found '${this.peek()}'` : `Expected '${char}'`)
+    }
+    this.cursor += 1
+  }
+
+  private read(pattern: RegExp) {
+    const start = this.cursor
+    while (this.canRead() && pattern.test(this.peek())) {
+      this.cursor += 1
+    }
+    return this.text.slice(start, this.cursor)
+  }
+}
@@ -0,0 +1,228 @@
+import { BlockState } from "./BlockState";
+import { block, colors, facings, stairFacings, woods } from "./BlockNames";
+
+/**
+ * Maps pre-1.13 numeric block ids to flattened block states. Keys are either
+ * `id:data` or just `id` when the data value doesn't affect the block.
+ */
+export type LegacyBlockTable = { [key: string]: BlockState }
+
+const horizontalFacings = ['south', 'west', 'north', 'east']
+
+function stairs(table: LegacyBlockTable, id: number, name: string) {
+  for (let data = 0; data < 8; data += 1) {
+    table[`${id}:${data}`] = block(name, {
+      facing: stairFacings[data & 3],
+      half: data & 4 ? 'top' : 'bottom',
+      shape: 'straight',
+      waterlogged: 'false',
+    })
+  }
+}
+
+function colored(table: LegacyBlockTable, id: number, suffix: string) {
+  colors.forEach((color, data) => {
+    table[`${id}:${data}`] = block(`${color}_${suffix}`)
+  })
+}
+
+function fluid(table: LegacyBlockTable, id: number, name: string) {
+  for (let data = 0; data < 16; data += 1) {
+    table[`${id}:${data}`] = block(name, { level: `${data}` })
+  }
+}
+
+function createTable() {
+  const table: LegacyBlockTable = {}
+  table['0'] = block('air')
+  ;['stone', 'granite', 'polished_granite', 'diorite', 'polished_diorite', 'andesite', 'polished_andesite']
+    .forEach((name, data) => table[`1:${data}`] = block(name))
+  table['2'] = block('grass_block', { snowy: 'false' })
+  table['3:0'] = block('dirt')
+  table['3:1'] = block('coarse_dirt')
+  table['3:2'] = block('podzol', { snowy: 'false' })
+  table['4'] = block('cobblestone')
+  woods.forEach((wood, data) => {
+    table[`5:${data}`] = block(`${wood}_planks`)
+    table[`6:${data}`] = block(`${wood}_sapling`, { stage: '0' })
+    table[`6:${data | 8}`] = block(`${wood}_sapling`, { stage: '1' })
+  })
+  table['7'] = block('bedrock')
+  fluid(table, 8, 'water')
+  fluid(table, 9, 'water')
+  fluid(table, 10, 'lava')
+  fluid(table, 11, 'lava')
+  table['12:0'] = block('sand')
+  table['12:1'] = block('red_sand')
+  table['13'] = block('gravel')
+  table['14'] = block('gold_ore')
+  table['15'] = block('iron_ore')
+  table['16'] = block('coal_ore')
+  const axes = ['y', 'x', 'z']
+  woods.forEach((wood, i) => {
+    const [logId, leavesId, variant] = i < 4 ? [17, 18, i] : [162, 161, i - 4]
+    axes.forEach((axis, a) => {
+      table[`${logId}:${variant | a << 2}`] = block(`${wood}_log`, { axis })
+    })
+    table[`${logId}:${variant | 12}`] = block(`${wood}_wood`, { axis: 'y' })
+    for (let flags = 0; flags < 4; flags += 1) {
+      table[`${leavesId}:${variant | flags << 2}`] = block(`${wood}_leaves`, {
+        distance: '7',
+        persistent: flags & 1 ? 'true' : 'false',
+      })
+    }
+  })
+  table['19:0'] = block('sponge')
+  table['19:1'] = block('wet_sponge')
+  table['20'] = block('glass')
+  table['21'] = block('lapis_ore')
+  table['22'] = block('lapis_block')
+  table['24:0'] = block('sandstone')
+  table['24:1'] = block('chiseled_sandstone')
+  table['24:2'] = block('cut_sandstone')
+  table['25'] = block('note_block', { instrument: 'harp', note: '0', powered: 'false' })
+  table['30'] = block('cobweb')
+  table['31:0'] = block('dead_bush')
+  table['31:1'] = block('grass')
+  table['31:2'] = block('fern')
+  table['32'] = block('dead_bush')
+  colored(table, 35, 'wool')
+  table['37'] = block('dandelion')
+  ;['poppy', 'blue_orchid', 'allium', 'azure_bluet', 'red_tulip', 'orange_tulip', 'white_tulip', 'pink_tulip', 'oxeye_daisy']
+    .forEach((name, data) => table[`38:${data}`] = block(name))
+  table['39'] = block('brown_mushroom')
+  table['40'] = block('red_mushroom')
+  table['41'] = block('gold_block')
+  table['42'] = block('iron_block')
+  ;['smooth_stone', 'sandstone', 'oak', 'cobblestone', 'brick', 'stone_brick', 'nether_brick', 'quartz']
+    .forEach((name, data) => {
+      const slab = name === 'oak' ? 'petrified_oak_slab' : `${name}_slab`
+      table[`43:${data}`] = block(slab, { type: 'double', waterlogged: 'false' })
+      table[`44:${data}`] = block(slab, { type: 'bottom', waterlogged: 'false' })
+      table[`44:${data | 8}`] = block(slab, { type: 'top', waterlogged: 'false' })
+    })
+  table['45'] = block('bricks')
+  table['46'] = block('tnt', { unstable: 'false' })
+  table['47'] = block('bookshelf')
+  table['48'] = block('mossy_cobblestone')
+  table['49'] = block('obsidian')
+  table['50:0'] = block('torch')
+  ;['east', 'west', 'south', 'north'].forEach((facing, i) => table[`50:${i + 1}`] = block('wall_torch', { facing }))
+  table['50:5'] = block('torch')
+  table['52'] = block('spawner')
+  stairs(table, 53, 'oak_stairs')
+  table['55'] = block('redstone_wire', { east: 'none', north: 'none', power: '0', south: 'none', west: 'none' })
+  table['56'] = block('diamond_ore')
+  table['57'] = block('diamond_block')
+  table['58'] = block('crafting_table')
+  for (let data = 0; data < 8; data += 1) {
+    table[`59:${data}`] = block('wheat', { age: `${data}` })
+    table[`60:${data}`] = block('farmland', { moisture: `${data}` })
+  }
+  ;['north', 'south', 'west', 'east'].forEach((facing, i) => {
+    table[`54:${i + 2}`] = block('chest', { facing, type: 'single', waterlogged: 'false' })
+    table[`61:${i + 2}`] = block('furnace', { facing, lit: 'false' })
+    table[`62:${i + 2}`] = block('furnace', { facing, lit: 'true' })
+    table[`65:${i + 2}`] = block('ladder', { facing, waterlogged: 'false' })
+  })
+  stairs(table, 67, 'cobblestone_stairs')
+  table['73'] = block('redstone_ore', { lit: 'false' })
+  table['74'] = block('redstone_ore', { lit: 'true' })
+  table['78:0'] = block('snow', { layers: '1' })
+  table['79'] = block('ice')
+  table['80'] = block('snow_block')
+  table['81'] = block('cactus', { age: '0' })
+  table['82'] = block('clay')
+  table['84'] = block('jukebox', { has_record: 'false' })
+  table['85'] = block('oak_fence', { east: 'false', north: 'false', south: 'false', waterlogged: 'false', west: 'false' })
+  horizontalFacings.forEach((facing, data) => {
+    table[`86:${data}`] = block('carved_pumpkin', { facing })
+    table[`91:${data}`] = block('jack_o_lantern', { facing })
+  })
+  table['87'] = block('netherrack')
+  table['88'] = block('soul_sand')
+  table['89'] = block('glowstone')
+  colored(table, 95, 'stained_glass')
+  ;['stone_bricks', 'mossy_stone_bricks', 'cracked_stone_bricks', 'chiseled_stone_bricks']
+    .forEach((name, data) => table[`98:${data}`] = block(name))
+  table['101'] = block('iron_bars', { east: 'false', north: 'false', south: 'false', waterlogged: 'false', west: 'false' })
+  table['102'] = block('glass_pane', { east: 'false', north: 'false', south: 'false', waterlogged: 'false', west: 'false' })
+  table['103'] = block('melon')
+  stairs(table, 108, 'brick_stairs')
+  stairs(table, 109, 'stone_brick_stairs')
+  table['110'] = block('mycelium', { snowy: 'false' })
+  table['112'] = block('nether_bricks')
+  stairs(table, 114, 'nether_brick_stairs')
+  table['121'] = block('end_stone')
+  stairs(table, 128, 'sandstone_stairs')
+  table['129'] = block('emerald_ore')
+  table['133'] = block('emerald_block')
+  stairs(table, 134, 'spruce_stairs')
+  stairs(table, 135, 'birch_stairs')
+  stairs(table, 136, 'jungle_stairs')
+  table['152'] = block('redstone_block')
+  table['153'] = block('nether_quartz_ore')
+  table['155:0'] = block('quartz_block')
+  table['155:1'] = block('chiseled_quartz_block')
+  table['155:2'] = block('quartz_pillar', { axis: 'y' })
+  table['155:3'] = block('quartz_pillar', { axis: 'x' })
+  table['155:4'] = block('quartz_pillar', { axis: 'z' })
+  stairs(table, 156, 'quartz_stairs')
+  colored(table, 159, 'terracotta')
+  colored(table, 160, 'stained_glass_pane')
+  stairs(table, 163, 'acacia_stairs')
+  stairs(table, 164, 'dark_oak_stairs')
+  table['165'] = block('slime_block')
+  table['169'] = block('sea_lantern')
+  ;['y', 'x', 'z'].forEach((axis, i) => table[`170:${i << 2}`] = block('hay_block', { axis }))
+  colored(table, 171, 'carpet')
+  table['172'] = block('terracotta')
+  table['173'] = block('coal_block')
+  table['174'] = block('packed_ice')
+  table['179:0'] = block('red_sandstone')
+  table['179:1'] = block('chiseled_red_sandstone')
+  table['179:2'] = block('cut_red_sandstone')
+  stairs(table, 180, 'red_sandstone_stairs')
+  table['201'] = block('purpur_block')
+  ;['y', 'x', 'z'].forEach((axis, i) => table[`202:${i << 2}`] = block('purpur_pillar', { axis }))
+  stairs(table, 203, 'purpur_stairs')
+  table['206'] = block('end_stone_bricks')
+  table['213'] = block('magma_block')
+  table['214'] = block('nether_wart_block')
+  table['215'] = block('red_nether_bricks')
+  colored(table, 251, 'concrete')
+  colored(table, 252, 'concrete_powder')
+  facings.forEach((facing, data) => {
+    table[`218:${data}`] = block('observer', { facing, powered: 'false' })
+  })
+  return table
+}
+
+export const legacyBlocks: LegacyBlockTable = createTable()
+
+/** Block entity ids used before 1.11 */
+export const legacyBlockEntities: { [id: string]: string } = {
+  Airportal: 'minecraft:end_portal',
+  Banner: 'minecraft:banner',
+  Beacon: 'minecraft:beacon',
+  Cauldron: 'minecraft:brewing_stand',
+  Chest: 'minecraft:chest',
+  Comparator: 'minecraft:comparator',
+  Control: 'minecraft:command_block',
+  DLDetector: 'minecraft:daylight_detector',
+  Dropper: 'minecraft:dropper',
+  EnchantTable: 'minecraft:enchanting_table',
+  EnderChest: 'minecraft:ender_chest',
+  EndGateway: 'minecraft:end_gateway',
+  FlowerPot: 'minecraft:flower_pot',
+  Furnace: 'minecraft:furnace',
+  Hopper: 'minecraft:hopper',
+  MobSpawner: 'minecraft:mob_spawner',
+  Music: 'minecraft:noteblock',
+  Piston: 'minecraft:piston',
+  RecordPlayer: 'minecraft:jukebox',
+  Sign: 'minecraft:sign',
+  Skull: 'minecraft:skull',
+  Structure: 'minecraft:structure_block',
+  Trap: 'minecraft:dispenser',
+}
@@ -0,0 +1,284 @@
+import { getListTag, getOptional, getTag, longArrayToPairs, NamedNbtTag, Nbt, NbtValues } from "@webmc/nbt";
+import { BlockState } from "./BlockState";
+import { Structure } from "./Structure";
+import { BlockNbt, BlockPos, StructureEntity } from "./StructureProvider";
+import { StructureWrapper } from "./StructureWrapper";
+
+export type LitematicMetadata = {
+  name: string
+  author: string
+  description: string
+  timeCreated?: number
+  timeModified?: number
+}
+
+export class LitematicRegion extends StructureWrapper {
+  /**
+   * @param position the minimum corner of the region, relative to the schematic origin
+   */
+  constructor(
+    private name: string,
+    structure: Structure,
+    private position: BlockPos = [0, 0, 0]
+  ) {
+    super(structure)
+  }
+
+  public getName() {
+    return this.name
+  }
+
+  public getPosition() {
+    return this.position
+  }
+}
+
+export class Litematic {
+  public static readonly VERSION = 5
+
+  constructor(
+    private regions: LitematicRegion[],
+    private metadata: LitematicMetadata = { name: '', author: '', description: '' },
+    private dataVersion = Structure.DATA_VERSION
+  ) {}
+
+  public getRegions() {
+    return this.regions
+  }
+
+  public getRegion(name: string) {
+    return this.regions.find(r => r.getName() === name)
+  }
+
+  public getMetadata() {
+    return this.metadata
+  }
+
+  public getDataVersion() {
+    return this.dataVersion
+  }
+
+  /** Returns the minimum corner and size of the box enclosing all regions */
+  public getBounds(): { position: BlockPos, size: BlockPos } {
+    if (this.regions.length === 0) {
+      return { position: [0, 0, 0], size: [0, 0, 0] }
+    }
+    const min: BlockPos = [Infinity, Infinity, Infinity]
+    const max: BlockPos = [-Infinity, -Infinity, -Infinity]
+    this.regions.forEach(r => {
+      const position = r.getPosition()
+      const size = r.getSize()
+      for (let i = 0; i < 3; i += 1) {
+        min[i] = Math.min(min[i], position[i])
+        max[i] = Math.max(max[i], position[i] + size[i])
+      }
+    })
+    return { position: min, size: [max[0] - min[0], max[1] - min[1], max[2] - min[2]] }
+  }
+
+  /**
+   * Combines all regions into a single structure covering their bounds.
+   * Where regions overlap, non-air blocks of later regions take precedence.
+   * A new structure is built on each call, so it reflects later edits of the regions.
+   */
+  public getMerged(): Structure {
+    const { position: min, size } = this.getBounds()
+    const blocks = new Map<number, { pos: BlockPos, state: BlockState, nbt?: BlockNbt }>()
+    const entities: StructureEntity[] = []
+    this.regions.forEach(region => {
+      const offset = region.getPosition().map((p, i) => p - min[i])
+      region.getBlocks().forEach(({ pos, state, nbt }) => {
+        const target: BlockPos = [pos[0] + offset[0], pos[1] + offset[1], pos[2] + offset[2]]
+        const i = target[0] + target[2] * size[0] + target[1] * size[0] * size[2]
+        if (state.getName() !== 'minecraft:air' || !blocks.has(i)) {
+          blocks.set(i, { pos: target, state, nbt })
+        }
+      })
+      region.getStructure().getEntities().forEach(e => entities.push({
+        pos: e.pos.map((p, i) => p + offset[i]) as StructureEntity['pos'],
+        blockPos: e.blockPos.map((p, i) => p + offset[i]) as BlockPos,
+        nbt: e.nbt,
+      }))
+    })
+    const structure = new Structure(size, [], [], entities)
+    ;[...blocks.keys()].sort((a, b) => a - b).forEach(i => {
+      const { pos, state, nbt } = blocks.get(i)!
+      structure.addBlock(pos, state.getName(), state.getProperties(), nbt)
+    })
+    return structure
+  }
+
+  public toNbt(): NamedNbtTag {
+    const now = Date.now()
+    const { size } = this.getBounds()
+    let totalBlocks = 0
+    const regions: NbtValues['compound'] = {}
+    this.regions.forEach(region => {
+      const [width, height, length] = region.getSize()
+      const palette = [new BlockState('minecraft:air')]
+      const indices = new Array<number>(width * height * length).fill(0)
+      const blockEntities: BlockNbt[] = []
+      region.getBlocks().forEach(({ pos, state, nbt }) => {
+        let index = palette.findIndex(s => s.equals(state))
+        if (index === -1) {
+          index = palette.length
+          palette.push(state)
+        }
+        const i = pos[0] + pos[2] * width + pos[1] * width * length
+        indices[i] = index
+        if (nbt) {
+          blockEntities[i] = { ...nbt, x: Nbt.int(pos[0]), y: Nbt.int(pos[1]), z: Nbt.int(pos[2]) }
+        }
+      })
+      totalBlocks += indices.filter(i => i !== 0).length
+      regions[region.getName()] = Nbt.compound({
+        Position: vec(region.getPosition()),
+        Size: vec(region.getSize()),
+        BlockStatePalette: Nbt.list('compound', palette.map(s => s.toNbt().value)),
+        BlockStates: Nbt.longArray(packBits(indices, bitsFor(palette.length))),
+        TileEntities: Nbt.list('compound', blockEntities.filter(e => e)),
+        Entities: Nbt.list('compound', region.getStructure().getEntities().map(({ pos, nbt }) => ({
+          ...nbt,
+          Pos: Nbt.list('double', [...pos]),
+        }))),
+        PendingBlockTicks: Nbt.list('compound', []),
+        PendingFluidTicks: Nbt.list('compound', []),
+      })
+    })
+    return { name: '', value: Nbt.compound({
+      Version: Nbt.int(Litematic.VERSION),
+      MinecraftDataVersion: Nbt.int(this.dataVersion),
+      Metadata: Nbt.compound({
+        Name: Nbt.string(this.metadata.name),
+        Author: Nbt.string(this.metadata.author),
+        Description: Nbt.string(this.metadata.description),
+        RegionCount: Nbt.int(this.regions.length),
+        TotalBlocks: Nbt.int(totalBlocks),
+        TotalVolume: Nbt.int(size[0] * size[1] * size[2]),
+        EnclosingSize: vec(size),
+        TimeCreated: Nbt.long(this.metadata.timeCreated ?? now),
+        TimeModified: Nbt.long(this.metadata.timeModified ?? now),
+      }),
+      Regions: { type: 'compound', value: regions },
+    }).value }
+  }
+
+  public static fromNbt(nbt: NamedNbtTag) {
+    const root = nbt.value
+    const version = getTag(root, 'Version', 'int')
+    if (version < 1 || version > 6) {
+      throw new Error(`Unsupported litematic version ${version}`)
+    }
+    const dataVersion = getOptional(() => getTag(root, 'MinecraftDataVersion', 'int'), Structure.DATA_VERSION)
+    const meta = getOptional(() => getTag(root, 'Metadata', 'compound'), {})
+    const metadata: LitematicMetadata = {
+      name: getOptional(() => getTag(meta, 'Name', 'string'), ''),
+      author: getOptional(() => getTag(meta, 'Author', 'string'), ''),
+      description: getOptional(() => getTag(meta, 'Description', 'string'), ''),
+      timeCreated: getOptional(() => Number(Nbt.getLong(meta, 'TimeCreated')), undefined),
+      timeModified: getOptional(() => Number(Nbt.getLong(meta, 'TimeModified')), undefined),
+    }
+
+    const regionsTag = getTag(root, 'Regions', 'compound')
+    const regions = Object.keys(regionsTag).map(name => {
+      const tags = getTag(regionsTag, name, 'compound')
+      const position = readVec(getTag(tags, 'Position', 'compound'))
+      const signedSize = readVec(getTag(tags, 'Size', 'compound'))
+      // Negative sizes extend from the position towards negative coordinates
+      const min = position.map((p, i) => signedSize[i] < 0 ? p + signedSize[i] + 1 : p) as BlockPos
+      const size = signedSize.map(Math.abs) as BlockPos
+      const [width, height, length] = size
+
+      const palette = getListTag(tags, 'BlockStatePalette', 'compound')
+        .map(state => BlockState.fromNbt({ name: '', value: state }))
+      const bits = bitsFor(palette.length)
+      const volume = width * height * length
+      const longs = getTag(tags, 'BlockStates', 'longArray')
+      if (longs.length * 64 < volume * bits) {
+        throw new Error(`Expected ${Math.ceil(volume * bits / 64)} longs in region ${name}, but found ${longs.length}`)
+      }
+      const indices = unpackBits(longs, bits, volume)
+
+      const blockEntities = new Map<number, BlockNbt>()
+      getOptional(() => getListTag(tags, 'TileEntities', 'compound'), []).forEach(tile => {
+        const { x, y, z, ...rest } = tile
+        if (x?.type !== 'int' || y?.type !== 'int' || z?.type !== 'int') {
+          throw new Error(`Tile entity in region ${name} is missing its position`)
+        }
+        blockEntities.set(x.value + z.value * width + y.value * width * length, rest)
+      })
+      const entities = getOptional(() => getListTag(tags, 'Entities', 'compound'), []).map(entity => {
+        const pos = getListTag(entity, 'Pos', 'double', 3) as StructureEntity['pos']
+        return { pos, blockPos: pos.map(Math.floor) as BlockPos, nbt: entity }
+      })
+
+      const structure = new Structure(size, [], [], entities)
+      indices.forEach((index, i) => {
+        const state = palette[index]
+        if (state === undefined) {
+          throw new Error(`Invalid palette index ${index} in region ${name}`)
+        }
+        const pos: BlockPos = [i % width, Math.floor(i / (width * length)), Math.floor(i / width) % length]
+        structure.addBlock(pos, state.getName(), state.getProperties(), blockEntities.get(i))
+      })
+      return new LitematicRegion(name, structure, min)
+    })
+
+    return new Litematic(regions, metadata, dataVersion)
+  }
+}
+
+function vec(pos: BlockPos) {
+  return Nbt.compound({ x: Nbt.int(pos[0]), y: Nbt.int(pos[1]), z: Nbt.int(pos[2]) })
+}
+
+function readVec(tags: NbtValues['compound']): BlockPos {
+  return [getTag(tags, 'x', 'int'), getTag(tags, 'y', 'int'), getTag(tags, 'z', 'int')]
+}
+
+function bitsFor(paletteSize: number) {
+  return Math.max(2, Math.ceil(Math.log2(paletteSize)))
+}
+
+/**
+ * Values are packed without padding, so a value may continue in the next long.
+ * The longs are handled as little-endian 32-bit words to avoid bigint math.
+ */
+function unpackBits(longs: NbtValues['longArray'], bits: number, count: number) {
+  const words = new Uint32Array(longs.length * 2)
+  longArrayToPairs(longs).forEach(([high, low], i) => {
+    words[i * 2] = low
+    words[i * 2 + 1] = high
+  })
+  const mask = bits === 32 ? 0xFFFFFFFF : (1 << bits) - 1
+  const values = new Array<number>(count)
+  for (let i = 0; i < count; i += 1) {
+    const bit = i * bits
+    const word = bit >>> 5
+    const shift = bit & 31
+    let value = words[word] >>> shift
+    if (shift + bits > 32) {
+      value |= words[word + 1] << (32 - shift)
+    }
+    values[i] = (value & mask) >>> 0
+  }
+  return values
+}
+
+function packBits(values: number[], bits: number): [number, number][] {
+  const words = new Uint32Array(Math.ceil(values.length * bits / 64) * 2)
+  values.forEach((value, i) => {
+    const bit = i * bits
+    const word = bit >>> 5
+    const shift = bit & 31
+    words[word] |= value << shift
+    if (shift + bits > 32) {
+      words[word + 1] |= value >>> (32 - shift)
+    }
+  })
+  const longs: [number, number][] = []
+  for (let i = 0; i < words.length; i += 2) {
+    longs.push([words[i + 1] | 0, words[i] | 0])
+  }
+  return longs
+}
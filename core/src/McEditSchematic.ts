@@ -0,0 +1,105 @@
+import { getListTag, getOptional, getTag, NamedNbtTag } from "@webmc/nbt";
+import { legacyBlockEntities, LegacyBlockTable, legacyBlocks } from "./LegacyBlocks";
+import { Structure } from "./Structure";
+import { BlockNbt, BlockPos, StructureEntity } from "./StructureProvider";
+import { StructureWrapper } from "./StructureWrapper";
+import { readCompounds } from "./Utils";
+
+/** A legacy id and data combination that has no entry in the flattening table */
+export type UnmappedLegacyBlock = {
+  id: number
+  data: number
+  /** Positions of the blocks in the schematic, which are left empty in the structure */
+  positions: BlockPos[]
+}
+
+export class McEditSchematic extends StructureWrapper {
+  constructor(
+    structure: Structure,
+    private unmapped: UnmappedLegacyBlock[] = [],
+    private offset: BlockPos = [0, 0, 0]
+  ) {
+    super(structure)
+  }
+
+  public getUnmapped() {
+    return this.unmapped
+  }
+
+  public getOffset() {
+    return this.offset
+  }
+
+  public static fromNbt(nbt: NamedNbtTag, table: LegacyBlockTable = legacyBlocks) {
+    const root = nbt.value
+    const materials = getOptional(() => getTag(root, 'Materials', 'string'), 'Alpha')
+    if (materials !== 'Alpha') {
+      throw new Error(`Unsupported schematic materials ${materials}`)
+    }
+    const size: BlockPos = [
+      getTag(root, 'Width', 'short') & 0xFFFF,
+      getTag(root, 'Height', 'short') & 0xFFFF,
+      getTag(root, 'Length', 'short') & 0xFFFF,
+    ]
+    const [width, height, length] = size
+    const volume = width * height * length
+    const ids = getTag(root, 'Blocks', 'byteArray')
+    const data = getTag(root, 'Data', 'byteArray')
+    const add = getOptional(() => getTag(root, 'AddBlocks', 'byteArray'), [])
+    if (ids.length !== volume || data.length !== volume) {
+      throw new Error(`Expected ${volume} blocks, but found ${ids.length} ids and ${data.length} data values`)
+    }
+    const offset: BlockPos = [
+      getOptional(() => getTag(root, 'WEOffsetX', 'int'), 0),
+      getOptional(() => getTag(root, 'WEOffsetY', 'int'), 0),
+      getOptional(() => getTag(root, 'WEOffsetZ', 'int'), 0),
+    ]
+
+    const blockEntities = new Map<number, BlockNbt>()
+    readCompounds(root, 'TileEntities').forEach(tags => {
+      const { x, y, z, id, ...rest } = tags
+      if (x?.type !== 'int' || y?.type !== 'int' || z?.type !== 'int') {
+        throw new Error('Tile entity is missing its position')
+      }
+      const nbt: BlockNbt = rest
+      if (id?.type === 'string') {
+        nbt.id = { type: 'string', value: legacyBlockEntities[id.value] ?? id.value }
+      }
+      blockEntities.set(x.value + z.value * width + y.value * width * length, nbt)
+    })
+
+    const entities: StructureEntity[] = readCompounds(root, 'Entities').map(tags => {
+      const pos = getListTag(tags, 'Pos', 'double', 3) as StructureEntity['pos']
+      return { pos, blockPos: pos.map(Math.floor) as BlockPos, nbt: tags }
+    })
+
+    const structure = new Structure(size, [], [], entities)
+    const unmapped = new Map<string, UnmappedLegacyBlock>()
+    for (let i = 0; i < volume; i += 1) {
+      const id = (ids[i] & 0xFF) | (addNibble(add, i) << 8)
+      const value = data[i] & 0xF
+      const pos: BlockPos = [i % width, Math.floor(i / (width * length)), Math.floor(i / width) % length]
+      const state = table[`${id}:${value}`] ?? table[`${id}`]
+      if (state === undefined) {
+        const key = `${id}:${value}`
+        if (!unmapped.has(key)) {
+          unmapped.set(key, { id, data: value, positions: [] })
+        }
+        unmapped.get(key)!.positions.push(pos)
+        continue
+      }
+      structure.addBlock(pos, state.getName(), state.getProperties(), blockEntities.get(i))
+    }
+
+    return new McEditSchematic(structure, [...unmapped.values()], offset)
+  }
+}
+
+/** Each byte of `AddBlocks` holds the high bits of two block ids */
+function addNibble(add: ArrayLike<number>, i: number) {
+  const byte = add[i >> 1]
+  if (byte === undefined) {
+    return 0
+  }
+  return (i & 1) === 0 ? byte & 0x0F : (byte >> 4) & 0x0F
+}
@@ -0,0 +1,165 @@
+import { getListTag, getOptional, getTag, NamedNbtTag, NbtTag, NbtValues } from "@webmc/nbt";
+import { BedrockBlockTable, bedrockBlocks, BedrockStates } from "./BedrockBlocks";
+import { BlockState } from "./BlockState";
+import { legacyBlockEntities } from "./LegacyBlocks";
+import { Structure } from "./Structure";
+import { BlockNbt, BlockPos, StructureEntity } from "./StructureProvider";
+import { StructureWrapper } from "./StructureWrapper";
+
+/** A Bedrock block that couldn't be converted to a Java block state */
+export type UnmappedBedrockBlock = {
+  name: string
+  states: BedrockStates
+  /** 0 for the primary block layer, 1 for the secondary (waterlogging) layer */
+  layer: number
+  positions: BlockPos[]
+}
+
+type PaletteEntry = { name: string, states: BedrockStates, state?: BlockState }
+
+export class McStructure extends StructureWrapper {
+  constructor(
+    structure: Structure,
+    private unmapped: UnmappedBedrockBlock[] = [],
+    private origin: BlockPos = [0, 0, 0]
+  ) {
+    super(structure)
+  }
+
+  public getUnmapped() {
+    return this.unmapped
+  }
+
+  /** The world position the structure was saved from */
+  public getOrigin() {
+    return this.origin
+  }
+
+  /**
+   * Converts a Bedrock structure, which should be read as little-endian NBT.
+   * Positions with a block index of -1 are structure voids and are left empty.
+   */
+  public static fromNbt(nbt: NamedNbtTag, table: BedrockBlockTable = bedrockBlocks) {
+    const root = nbt.value
+    const version = getTag(root, 'format_version', 'int')
+    if (version !== 1) {
+      throw new Error(`Unsupported mcstructure format version ${version}`)
+    }
+    const size = getListTag(root, 'size', 'int', 3) as BlockPos
+    const [width, height, length] = size
+    const volume = width * height * length
+    const origin = getOptional<BlockPos>(() => getListTag(root, 'structure_world_origin', 'int', 3) as BlockPos, [0, 0, 0])
+    const data = getTag(root, 'structure', 'compound')
+
+    const layers = getListTag(data, 'block_indices', 'list').map((layer, i) => {
+      if (layer.value.length === 0) {
+        return new Array<number>(volume).fill(-1)
+      }
+      if (layer.type !== 'int' || layer.value.length !== volume) {
+        throw new Error(`Expected ${volume} block indices in layer ${i}, but found ${layer.value.length}`)
+      }
+      return layer.value as number[]
+    })
+    if (layers.length === 0) {
+      throw new Error('Missing primary block layer')
+    }
+
+    const defaultPalette = getOptional(() => getTag(getTag(data, 'palette', 'compound'), 'default', 'compound'), {})
+    const palette: PaletteEntry[] = getOptional(() => getListTag(defaultPalette, 'block_palette', 'compound'), [])
+      .map(tags => {
+        const name = getTag(tags, 'name', 'string')
+        const states = readStates(getOptional(() => getTag(tags, 'states', 'compound'), {}))
+        return { name, states, state: table[name]?.(states) }
+      })
+    const positionData = getOptional(() => getTag(defaultPalette, 'block_position_data', 'compound'), {})
+
+    const unmapped = new Map<string, UnmappedBedrockBlock>()
+    const report = (entry: PaletteEntry, layer: number, pos: BlockPos) => {
+      const key = `${layer} ${entry.name} ${JSON.stringify(entry.states)}`
+      if (!unmapped.has(key)) {
+        unmapped.set(key, { name: entry.name, states: entry.states, layer, positions: [] })
+      }
+      unmapped.get(key)!.positions.push(pos)
+    }
+    const entry = (index: number) => {
+      const result = palette[index]
+      if (result === undefined) {
+        throw new Error(`Invalid palette index ${index}`)
+      }
+      return result
+    }
+
+    const entities: StructureEntity[] = getOptional(() => getListTag(data, 'entities', 'compound'), [])
+      .map(tags => {
+        const pos = getListTag(tags, 'Pos', 'float', 3).map((p, i) => p - origin[i]) as StructureEntity['pos']
+        const id = getOptional(() => getTag(tags, 'identifier', 'string'), undefined)
+        const nbt: BlockNbt = id === undefined ? tags : { ...tags, id: { type: 'string', value: id } }
+        return { pos, blockPos: pos.map(Math.floor) as BlockPos, nbt }
+      })
+
+    const structure = new Structure(size, [], [], entities)
+    for (let i = 0; i < volume; i += 1) {
+      const index = layers[0][i]
+      const extra = layers[1]?.[i] ?? -1
+      if (index === -1 && extra === -1) continue
+      const pos: BlockPos = [Math.floor(i / (height * length)), Math.floor(i / length) % height, i % length]
+
+      let [primary, secondary] = [index, extra].map(j => j === -1 ? undefined : entry(j))
+      let layer = 0
+      if ((primary === undefined || primary.name === 'minecraft:air') && secondary !== undefined) {
+        // A liquid without a block around it is stored in the second layer only
+        [primary, secondary, layer] = [secondary, undefined, 1]
+      }
+      if (primary === undefined) continue
+      if (primary.state === undefined) {
+        report(primary, layer, pos)
+        continue
+      }
+
+      const state = primary.state
+      let properties = state.getProperties()
+      if (secondary !== undefined && secondary.name !== 'minecraft:air') {
+        if (isWater(secondary) && properties.waterlogged !== undefined) {
+          properties = { ...properties, waterlogged: 'true' }
+        } else {
+          report(secondary, 1, pos)
+        }
+      }
+
+      const blockEntity = getOptional(() => getTag(getTag(positionData, `${i}`, 'compound'), 'block_entity_data', 'compound'), undefined)
+      structure.addBlock(pos, state.getName(), properties, blockEntity && convertBlockEntity(blockEntity))
+    }
+
+    return new McStructure(structure, [...unmapped.values()], origin)
+  }
+}
+
+function readStates(tags: NbtValues['compound']): BedrockStates {
+  const states: BedrockStates = {}
+  Object.keys(tags).forEach(key => {
+    const tag: NbtTag = tags[key]
+    switch (tag.type) {
+      case 'byte':
+      case 'short':
+      case 'int':
+      case 'string':
+        states[key] = tag.value
+        break
+      default:
+        throw new Error(`Unsupported block state ${key} of type ${tag.type}`)
+    }
+  })
+  return states
+}
+
+function isWater(entry: PaletteEntry) {
+  return entry.name === 'minecraft:water' || entry.name === 'minecraft:flowing_water'
+}
+
+function convertBlockEntity(tags: BlockNbt): BlockNbt {
+  const { x, y, z, id, isMovable, ...rest } = tags
+  if (id?.type !== 'string') {
+    return rest
+  }
+  return { ...rest, id: { type: 'string', value: legacyBlockEntities[id.value] ?? id.value } }
+}
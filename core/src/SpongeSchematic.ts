@@ -0,0 +1,198 @@
+import { getListTag, getOptional, getTag, NamedNbtTag, Nbt, NbtTag } from "@webmc/nbt";
+import { BlockState } from "./BlockState";
+import { Structure } from "./Structure";
+import { BlockNbt, BlockPos, StructureEntity } from "./StructureProvider";
+import { StructureWrapper } from "./StructureWrapper";
+import { readCompounds } from "./Utils";
+
+export type SpongeSchematicVersion = 1 | 2 | 3
+
+export class SpongeSchematic extends StructureWrapper {
+  constructor(
+    structure: Structure,
+    private offset: BlockPos = [0, 0, 0],
+    private dataVersion = Structure.DATA_VERSION
+  ) {
+    super(structure)
+  }
+
+  public getOffset() {
+    return this.offset
+  }
+
+  public getDataVersion() {
+    return this.dataVersion
+  }
+
+  public toNbt(version: SpongeSchematicVersion = 3): NamedNbtTag {
+    const [width, height, length] = this.structure.getSize()
+    const keys = new Array<string>(width * height * length).fill('minecraft:air')
+    const blockEntities: BlockNbt[] = []
+    this.structure.getBlocks().forEach(({ pos, state, nbt }) => {
+      const i = pos[0] + pos[2] * width + pos[1] * width * length
+      keys[i] = state.toString()
+      if (nbt) {
+        const { id, ...data } = nbt
+        blockEntities[i] = container(version, {
+          Pos: Nbt.intArray([...pos]),
+          Id: Nbt.string(id?.type === 'string' ? id.value : state.getName()),
+        }, data)
+      }
+    })
+    const palette = new Map<string, number>()
+    const indices = keys.map(key => {
+      if (!palette.has(key)) {
+        palette.set(key, palette.size)
+      }
+      return palette.get(key)!
+    })
+
+    const entities = this.structure.getEntities().map(({ pos, nbt }) => {
+      const { id, Pos, ...data } = nbt
+      if (id?.type !== 'string') {
+        throw new Error('Entity is missing an id')
+      }
+      return container(version, {
+        Pos: Nbt.list('double', [...pos]),
+        Id: Nbt.string(id.value),
+      }, data)
+    })
+
+    const paletteTag = Nbt.compound([...palette.entries()]
+      .reduce((acc, [k, v]) => ({ ...acc, [k]: Nbt.int(v) }), {}))
+    const dataTag = Nbt.byteArray(encodeVarints(indices))
+
+    const header = {
+      Version: Nbt.int(version),
+      DataVersion: version >= 2 ? Nbt.int(this.dataVersion) : undefined,
+      Width: Nbt.short(toShort(width)),
+      Height: Nbt.short(toShort(height)),
+      Length: Nbt.short(toShort(length)),
+      Offset: Nbt.intArray([...this.offset]),
+    }
+    if (version === 3) {
+      return { name: '', value: {
+        Schematic: Nbt.compound({
+          ...header,
+          Blocks: Nbt.compound({
+            Palette: paletteTag,
+            Data: dataTag,
+            BlockEntities: Nbt.list('compound', blockEntities.filter(e => e)),
+          }),
+          Entities: Nbt.list('compound', entities),
+        })
+      } }
+    }
+    return { name: 'Schematic', value: Nbt.compound({
+      ...header,
+      PaletteMax: Nbt.int(palette.size),
+      Palette: paletteTag,
+      BlockData: dataTag,
+      [version === 1 ? 'TileEntities' : 'BlockEntities']: Nbt.list('compound', blockEntities.filter(e => e)),
+      Entities: version === 2 ? Nbt.list('compound', entities) : undefined,
+    }).value }
+  }
+
+  public static fromNbt(nbt: NamedNbtTag) {
+    const root = getOptional(() => getTag(nbt.value, 'Schematic', 'compound'), nbt.value)
+    const version = getTag(root, 'Version', 'int')
+    if (version < 1 || version > 3) {
+      throw new Error(`Unsupported Sponge schematic version ${version}`)
+    }
+    const size: BlockPos = [
+      getTag(root, 'Width', 'short') & 0xFFFF,
+      getTag(root, 'Height', 'short') & 0xFFFF,
+      getTag(root, 'Length', 'short') & 0xFFFF,
+    ]
+    const [width, height, length] = size
+    const offset = Array.from(getOptional(() => getTag(root, 'Offset', 'intArray'), [0, 0, 0])) as BlockPos
+    const dataVersion = version >= 2 ? getTag(root, 'DataVersion', 'int') : undefined
+
+    const entities = readCompounds(root, 'Entities').map(tags => {
+      const pos = getListTag(tags, 'Pos', 'double', 3) as StructureEntity['pos']
+      return { pos, blockPos: pos.map(Math.floor) as BlockPos, nbt: uncontainer(version, tags) }
+    })
+
+    const blocks = version === 3 ? getOptional(() => getTag(root, 'Blocks', 'compound'), undefined) : root
+    const structure = new Structure(size, [], [], entities)
+    if (blocks) {
+      const paletteTag = getTag(blocks, 'Palette', 'compound')
+      const palette: BlockState[] = []
+      Object.keys(paletteTag).forEach(key => {
+        palette[getTag(paletteTag, key, 'int')] = BlockState.parse(key)
+      })
+
+      const blockEntities = new Map<number, BlockNbt>()
+      const blockEntitiesKey = version === 1 ? 'TileEntities' : 'BlockEntities'
+      readCompounds(blocks, blockEntitiesKey).forEach(tags => {
+        const pos = getTag(tags, 'Pos', 'intArray')
+        blockEntities.set(pos[0] + pos[2] * width + pos[1] * width * length, uncontainer(version, tags))
+      })
+
+      const data = decodeVarints(getTag(blocks, version === 3 ? 'Data' : 'BlockData', 'byteArray'), width * height * length)
+      data.forEach((index, i) => {
+        const state = palette[index]
+        if (state === undefined) {
+          throw new Error(`Invalid palette index ${index} in block data`)
+        }
+        const pos: BlockPos = [i % width, Math.floor(i / (width * length)), Math.floor(i / width) % length]
+        structure.addBlock(pos, state.getName(), state.getProperties(), blockEntities.get(i))
+      })
+    }
+
+    return new SpongeSchematic(structure, offset, dataVersion)
+  }
+}
+
+/** v1 and v2 store extra data next to `Pos` and `Id`, v3 nests it in `Data` */
+function container(version: SpongeSchematicVersion, header: BlockNbt, data: BlockNbt) {
+  return version === 3
+    ? { ...header, Data: Nbt.compound(data) }
+    : { ...header, ...data }
+}
+
+function uncontainer(version: number, tags: BlockNbt): BlockNbt {
+  const id: NbtTag = { type: 'string', value: getTag(tags, 'Id', 'string') }
+  if (version === 3) {
+    return { ...getOptional(() => getTag(tags, 'Data', 'compound'), {}), id }
+  }
+  const { Pos, Id, ...data } = tags
+  return { ...data, id }
+}
+
+function decodeVarints(bytes: ArrayLike<number>, count: number) {
+  const values = new Array<number>(count)
+  let offset = 0
+  for (let i = 0; i < count; i += 1) {
+    let value = 0
+    for (let shift = 0; ; shift += 7) {
+      if (offset >= bytes.length) {
+        throw new Error(`Expected ${count} blocks in block data, but found ${i}`)
+      }
+      const b = bytes[offset++] & 0xFF
+      value |= (b & 0x7F) << shift
+      if ((b & 0x80) === 0) break
+      if (shift >= 28) {
+        throw new Error('Varint in block data is too long')
+      }
+    }
+    values[i] = value
+  }
+  return values
+}
+
+function encodeVarints(values: number[]) {
+  const bytes: number[] = []
+  values.forEach(value => {
+    while ((value & ~0x7F) !== 0) {
+      bytes.push(((value & 0x7F) | 0x80) << 24 >> 24)
+      value >>>= 7
+    }
+    bytes.push(value)
+  })
+  return bytes
+}
+
+function toShort(value: number) {
+  return value << 16 >> 16
+}
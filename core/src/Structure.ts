@@ -1,15 +1,53 @@
-import { NamedNbtTag, getTag, getListTag, getOptional } from "@webmc/nbt";
+import { NamedNbtTag, getTag, getListTag, getOptional, Nbt, NbtValues } from "@webmc/nbt";
 import { BlockState } from "./BlockState";
-import { StructureProvider, BlockPos, BlockNbt } from "./StructureProvider";
+import { StructureProvider, BlockPos, BlockNbt, StructureEntity, StructureChange, StructureListener } from "./StructureProvider";
+import { Mirror, mirrorPoint, mirrorPos, Rotation, rotatePoint, rotatePos, rotationSteps } from "./Transform";
+
+/** A box between two corners, both inclusive */
+export type BlockBox = {
+  min: BlockPos
+  max: BlockPos
+}
+
+/**
+ * `replace` overwrites every block, `masked` skips air in the pasted structure
+ * and `keep` only places blocks where this structure is empty or air.
+ */
+export type PasteMode = 'replace' | 'masked' | 'keep'
+
+export type BlockFilter = BlockState | ((block: { pos: BlockPos, state: BlockState, nbt?: BlockNbt }) => boolean)
+
+type StructureBlock = { pos: BlockPos, state: number, nbt?: BlockNbt }
+
+export type StructureBlockData = { state: BlockState, nbt?: BlockNbt }
+
+/** Notified before blocks are changed, used to record edits */
+export interface StructureTracker {
+  block?(pos: BlockPos, previous: StructureBlockData | null, next: StructureBlockData | null): void
+  /** `removed` are the blocks outside the new bounds, in the old coordinates */
+  resize?(previousSize: BlockPos, size: BlockPos, offset: BlockPos, removed: (StructureBlockData & { pos: BlockPos })[]): void
+}
+
+type PendingChange = { positions: BlockPos[], previousSize?: BlockPos, palette?: boolean }
 
 export class Structure implements StructureProvider {
-  private blocksMap: { pos: BlockPos, state: number, nbt?: BlockNbt }[] = []
+  public static readonly DATA_VERSION = 2586
+
+  private blocksMap: StructureBlock[] = []
+  private dataVersion?: number
+  private palettes: BlockState[][]
+  private activePalette = 0
+  private trackers: StructureTracker[] = []
+  private listeners: StructureListener[] = []
+  private pending: PendingChange | null = null
 
   constructor(
     private size: BlockPos,
     private palette: BlockState[] = [],
-    private blocks: { pos: BlockPos, state: number, nbt?: BlockNbt }[] = []
+    private blocks: StructureBlock[] = [],
+    private entities: StructureEntity[] = []
   ) {
+    this.palettes = [palette]
     blocks.forEach(block => {
       this.blocksMap[block.pos[0] * size[1] * size[2] + block.pos[1] * size[2] + block.pos[2]] = block
     });
@@ -20,19 +58,12 @@ export class Structure implements StructureProvider {
   }
 
   public addBlock(pos: BlockPos, name: string, properties?: { [key: string]: string }, nbt?: BlockNbt) {
-    const blockState = new BlockState(name, properties)
-    let state = this.palette.findIndex(b => b.equals(blockState))
-    if (state === -1) {
-      state = this.palette.length
-      this.palette.push(blockState)
-    }
-    this.blocks.push({ pos, state, nbt })
-    this.blocksMap[pos[0] * this.size[1] * this.size[2] + pos[1] * this.size[2] + pos[2]] = { pos, state, nbt }    
+    this.changeBlock(pos, this.stateIndex(new BlockState(name, properties)), nbt)
     return this
   }
 
   public getBlocks() {
-    return this.blocks.map(b => ({
+    return this.liveBlocks().map(b => ({
       pos: b.pos,
       state: this.palette[b.state],
       nbt: b.nbt
@@ -40,12 +71,10 @@ export class Structure implements StructureProvider {
   }
 
   public getBlock(pos: BlockPos) {
-    if (pos[0] < 0 || pos[1] < 0 || pos[2] < 0 || pos[0] >= this.size[0] || pos[1] >= this.size[1] || pos[2] >= this.size[2])
+    if (!this.isInside(pos))
       return null
 
-
-    const block = this.blocksMap[pos[0] * this.size[1] * this.size[2] + pos[1] * this.size[2] + pos[2]]
-//    const block = this.blocks.find(b => b.pos[0] === pos[0] && b.pos[1] === pos[1] && b.pos[2] === pos[2])
+    const block = this.blocksMap[this.index(pos)]
     if (!block) return null
     return {
       pos: block.pos,
@@ -54,10 +83,364 @@ export class Structure implements StructureProvider {
     }
   }
 
+  public isInside(pos: BlockPos) {
+    return pos[0] >= 0 && pos[1] >= 0 && pos[2] >= 0 && pos[0] < this.size[0] && pos[1] < this.size[1] && pos[2] < this.size[2]
+  }
+
+  /** Places a block, replacing the existing one, or removes it when `state` is null */
+  public setBlock(pos: BlockPos, state: BlockState | null, nbt?: BlockNbt) {
+    if (!this.isInside(pos)) {
+      throw new Error(`Position ${pos.join(', ')} is outside the structure of size ${this.size.join(', ')}`)
+    }
+    this.changeBlock([pos[0], pos[1], pos[2]], state === null ? undefined : this.stateIndex(state), nbt)
+    return this
+  }
+
+  public removeBlock(pos: BlockPos) {
+    return this.setBlock(pos, null)
+  }
+
+  /** Sets every position in the box, clipped to the bounds of the structure */
+  public fill(box: BlockBox, state: BlockState | null) {
+    const index = state === null ? undefined : this.stateIndex(state)
+    return this.batch(() => this.forEachInBox(box, pos => this.changeBlock(pos, index)))
+  }
+
+  /** Replaces the blocks matching the filter, dropping their block entity data */
+  public replace(filter: BlockFilter, state: BlockState | null) {
+    const matches = filter instanceof BlockState
+      ? (b: StructureBlock) => this.palette[b.state].equals(filter)
+      : (b: StructureBlock) => filter({ pos: b.pos, state: this.palette[b.state], nbt: b.nbt })
+    return this.batch(() => this.liveBlocks().filter(matches).forEach(b => this.setBlock(b.pos, state)))
+  }
+
+  /** Returns a new structure with the blocks and entities inside the box, clipped to the bounds */
+  public copy(box: BlockBox) {
+    const [min, max] = this.clip(box)
+    const size = min.map((v, i) => Math.max(0, max[i] - v + 1)) as BlockPos
+    const structure = this.withSize(size)
+    this.forEachInBox(box, pos => {
+      const block = this.blocksMap[this.index(pos)]
+      if (block) {
+        structure.putBlock([pos[0] - min[0], pos[1] - min[1], pos[2] - min[2]], block.state, block.nbt)
+      }
+    })
+    structure.entities = this.entities
+      .filter(e => e.blockPos.every((v, i) => v >= min[i] && v <= max[i]))
+      .map(e => shiftEntity(e, min.map(v => -v)))
+    return structure
+  }
+
+  /** Pastes another structure with its origin at `offset`, leaving out anything outside the bounds */
+  public paste(other: StructureProvider, offset: BlockPos = [0, 0, 0], mode: PasteMode = 'replace') {
+    this.batch(() => other.getBlocks().forEach(({ pos, state, nbt }) => {
+      const target: BlockPos = [pos[0] + offset[0], pos[1] + offset[1], pos[2] + offset[2]]
+      if (!this.isInside(target)) return
+      if (mode === 'masked' && isAir(state)) return
+      if (mode === 'keep') {
+        const existing = this.blocksMap[this.index(target)]
+        if (existing && !isAir(this.palette[existing.state])) return
+      }
+      this.changeBlock(target, this.stateIndex(state), nbt)
+    }))
+    const entities = (other.getEntities?.() ?? [])
+      .map(e => shiftEntity(e, offset))
+      .filter(e => this.isInside(e.blockPos))
+    if (entities.length > 0) {
+      this.entities = [...this.entities, ...entities]
+    }
+    return this
+  }
+
+  /**
+   * Changes the bounds of the structure, moving the contents by `offset`.
+   * Blocks and entities that end up outside the new bounds are removed.
+   */
+  public resize(size: BlockPos, offset: BlockPos = [0, 0, 0]) {
+    const blocks = this.liveBlocks()
+    if (this.trackers.length > 0) {
+      const inside = (pos: BlockPos) => pos.every((v, i) => v + offset[i] >= 0 && v + offset[i] < size[i])
+      const removed = blocks.filter(b => !inside(b.pos))
+        .map(b => ({ pos: b.pos, state: this.palette[b.state], nbt: b.nbt }))
+      this.trackers.forEach(t => t.resize?.(this.size, size, offset, removed))
+    }
+    const previousSize = this.size
+    this.size = [size[0], size[1], size[2]]
+    this.blocks = []
+    this.blocksMap = []
+    blocks.forEach(b => {
+      const pos: BlockPos = [b.pos[0] + offset[0], b.pos[1] + offset[1], b.pos[2] + offset[2]]
+      if (this.isInside(pos)) {
+        this.putBlock(pos, b.state, b.nbt)
+      }
+    })
+    this.entities = this.entities
+      .map(e => shiftEntity(e, offset))
+      .filter(e => this.isInside(e.blockPos))
+    if (this.pending) {
+      this.pending.previousSize = this.pending.previousSize ?? previousSize
+    } else {
+      this.emit({ type: 'size', previousSize, size: this.size })
+    }
+    return this
+  }
+
+  /** Shrinks the bounds to the smallest box containing all non-air blocks */
+  public trimToContents() {
+    const min: BlockPos = [Infinity, Infinity, Infinity]
+    const max: BlockPos = [-Infinity, -Infinity, -Infinity]
+    this.liveBlocks().forEach(b => {
+      if (isAir(this.palette[b.state])) return
+      for (let i = 0; i < 3; i += 1) {
+        min[i] = Math.min(min[i], b.pos[i])
+        max[i] = Math.max(max[i], b.pos[i])
+      }
+    })
+    if (min[0] === Infinity) {
+      return this.resize([0, 0, 0])
+    }
+    return this.resize(min.map((v, i) => max[i] - v + 1) as BlockPos, min.map(v => -v) as BlockPos)
+  }
+
+  public getPaletteCount() {
+    return this.palettes.length
+  }
+
+  public getActivePalette() {
+    return this.activePalette
+  }
+
+  /** Selects which of the palettes, such as the variants of a shipwreck, blocks are read from */
+  public setActivePalette(index: number) {
+    if (!Number.isInteger(index) || index < 0 || index >= this.palettes.length) {
+      throw new Error(`Palette index ${index} is out of range, expected 0 to ${this.palettes.length - 1}`)
+    }
+    const previous = this.activePalette
+    this.activePalette = index
+    this.palette = this.palettes[index]
+    if (index === previous) return
+    if (this.pending) {
+      this.pending.palette = true
+    } else {
+      this.emit({ type: 'palette', palette: index })
+    }
+  }
+
+  public getEntities() {
+    return this.entities
+  }
+
+  public setEntities(entities: StructureEntity[]) {
+    this.entities = entities
+    return this
+  }
+
+  /** Registers a tracker to be notified before each change, returns a function to remove it */
+  public track(tracker: StructureTracker) {
+    this.trackers.push(tracker)
+    return () => {
+      this.trackers = this.trackers.filter(t => t !== tracker)
+    }
+  }
+
+  public onChange(listener: StructureListener) {
+    this.listeners.push(listener)
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener)
+    }
+  }
+
+  /**
+   * Runs the edits and notifies the listeners once with a `bulk` event,
+   * instead of once for each changed block
+   */
+  public batch(edit: (structure: Structure) => void) {
+    if (this.pending) {
+      edit(this)
+      return this
+    }
+    const pending: PendingChange = { positions: [] }
+    this.pending = pending
+    try {
+      edit(this)
+    } finally {
+      this.pending = null
+      if (pending.previousSize) {
+        this.emit({ type: 'size', previousSize: pending.previousSize, size: this.size })
+      } else if (pending.palette) {
+        this.emit({ type: 'palette', palette: this.activePalette })
+      } else if (pending.positions.length > 0) {
+        this.emit({ type: 'bulk', positions: pending.positions })
+      }
+    }
+    return this
+  }
+
+  /** Returns a new structure rotated around the y axis, with the size swapped for quarter turns */
+  public rotate(rotation: Rotation) {
+    const size = this.size
+    const rotated: BlockPos = rotationSteps(rotation) % 2 === 1 ? [size[2], size[1], size[0]] : [...size] as BlockPos
+    return this.transform(rotated,
+      pos => rotatePos(pos, rotation, size),
+      pos => rotatePoint(pos, rotation, size),
+      state => state.rotate(rotation),
+      yaw => yaw + rotationSteps(rotation) * 90)
+  }
+
+  public mirror(mirror: Mirror) {
+    const size = this.size
+    return this.transform([...size] as BlockPos,
+      pos => mirrorPos(pos, mirror, size),
+      pos => mirrorPoint(pos, mirror, size),
+      state => state.mirror(mirror),
+      yaw => mirror === 'LEFT_RIGHT' ? 180 - yaw : mirror === 'FRONT_BACK' ? -yaw : yaw)
+  }
+
+  private transform(
+    size: BlockPos,
+    blockPos: (pos: BlockPos) => BlockPos,
+    point: (pos: number[]) => [number, number, number],
+    state: (state: BlockState) => BlockState,
+    yaw: (yaw: number) => number
+  ) {
+    const structure = this.withSize(size)
+    structure.palettes = this.palettes.map(palette => palette.map(state))
+    structure.setActivePalette(this.activePalette)
+    this.liveBlocks().forEach(b => structure.putBlock(blockPos(b.pos), b.state, b.nbt))
+    structure.entities = this.entities.map(e => {
+      const rotation = e.nbt.Rotation
+      const nbt = rotation?.type === 'list' && rotation.value.type === 'float'
+        ? { ...e.nbt, Rotation: Nbt.list('float', [yaw(rotation.value.value[0]), ...rotation.value.value.slice(1)]) }
+        : e.nbt
+      return { pos: point(e.pos), blockPos: blockPos(e.blockPos), nbt }
+    })
+    return structure
+  }
+
+  private index(pos: BlockPos) {
+    return pos[0] * this.size[1] * this.size[2] + pos[1] * this.size[2] + pos[2]
+  }
+
+  /** Returns the index of a state in the palettes, adding it to all of them if needed */
+  private stateIndex(state: BlockState) {
+    let index = this.palette.findIndex(b => b.equals(state))
+    if (index === -1) {
+      index = this.palette.length
+      this.palettes.forEach(palette => palette.push(state))
+    }
+    return index
+  }
+
+  /** Places or removes a block, notifying the trackers */
+  private changeBlock(pos: BlockPos, state?: number, nbt?: BlockNbt) {
+    if (this.trackers.length > 0) {
+      const block = this.blocksMap[this.index(pos)]
+      const previous = block ? { state: this.palette[block.state], nbt: block.nbt } : null
+      const next = state === undefined ? null : { state: this.palette[state], nbt }
+      this.trackers.forEach(t => t.block?.(pos, previous, next))
+    }
+    if (state === undefined) {
+      delete this.blocksMap[this.index(pos)]
+    } else {
+      this.putBlock(pos, state, nbt)
+    }
+    this.changed(pos)
+  }
+
+  private changed(pos: BlockPos) {
+    if (this.listeners.length === 0) return
+    if (this.pending) {
+      this.pending.positions.push(pos)
+    } else {
+      this.emit({ type: 'block', pos })
+    }
+  }
+
+  private emit(change: StructureChange) {
+    this.listeners.forEach(l => l(change))
+  }
+
+  private putBlock(pos: BlockPos, state: number, nbt?: BlockNbt) {
+    const block = { pos, state, nbt }
+    this.blocks.push(block)
+    this.blocksMap[this.index(pos)] = block
+  }
+
+  /** Replaced and removed blocks stay in `blocks` until the next time it's read */
+  private liveBlocks() {
+    this.blocks = this.blocks.filter(b => this.blocksMap[this.index(b.pos)] === b)
+    return this.blocks
+  }
+
+  private clip(box: BlockBox): [BlockPos, BlockPos] {
+    const min = box.min.map((v, i) => Math.max(0, Math.min(v, box.max[i]))) as BlockPos
+    const max = box.min.map((v, i) => Math.min(this.size[i] - 1, Math.max(v, box.max[i]))) as BlockPos
+    return [min, max]
+  }
+
+  private forEachInBox(box: BlockBox, fn: (pos: BlockPos) => void) {
+    const [min, max] = this.clip(box)
+    for (let x = min[0]; x <= max[0]; x += 1) {
+      for (let y = min[1]; y <= max[1]; y += 1) {
+        for (let z = min[2]; z <= max[2]; z += 1) {
+          fn([x, y, z])
+        }
+      }
+    }
+  }
+
+  /** Creates an empty structure with a copy of the palettes and the same data version */
+  private withSize(size: BlockPos) {
+    const palettes = this.palettes.map(palette => [...palette])
+    const structure = new Structure(size, palettes[0])
+    structure.palettes = palettes
+    structure.setActivePalette(this.activePalette)
+    if (this.dataVersion !== undefined) {
+      structure.dataVersion = this.dataVersion
+    }
+    return structure
+  }
+
+  public toNbt(): NamedNbtTag {
+    const blocks = this.liveBlocks()
+    const usedStates = new Set<number>()
+    blocks.forEach(b => usedStates.add(b.state))
+    const used = this.palette.map((_, i) => i).filter(i => usedStates.has(i))
+    const remap = new Map(used.map((state, i) => [state, i]))
+    const palettes = this.palettes.map(palette =>
+      Nbt.list('compound', used.map(i => palette[i].toNbt().value)).value)
+    return { name: '', value: Nbt.compound({
+      size: Nbt.list('int', [...this.size]),
+      palette: palettes.length === 1 ? { type: 'list', value: palettes[0] } : undefined,
+      palettes: palettes.length > 1 ? Nbt.list('list', palettes) : undefined,
+      blocks: Nbt.list('compound', blocks.map(b => Nbt.compound({
+        pos: Nbt.list('int', [...b.pos]),
+        state: Nbt.int(remap.get(b.state)!),
+        nbt: b.nbt ? Nbt.compound(b.nbt) : undefined
+      }).value)),
+      entities: Nbt.list('compound', this.entities.map(e => Nbt.compound({
+        pos: Nbt.list('double', [...e.pos]),
+        blockPos: Nbt.list('int', [...e.blockPos]),
+        nbt: Nbt.compound(e.nbt)
+      }).value)),
+      DataVersion: Nbt.int(this.dataVersion ?? Structure.DATA_VERSION)
+    }).value }
+  }
+
   public static fromNbt(nbt: NamedNbtTag) {
     const size = getListTag(nbt.value, 'size', 'int', 3) as BlockPos
-    const palette = getListTag(nbt.value, 'palette', 'compound')
-      .map(tags => BlockState.fromNbt({name: '', value: tags}))
+    const palettes = getOptional(() => getListTag(nbt.value, 'palettes', 'list'), undefined)
+      ?.map(list => {
+        if (list.type !== 'compound' && list.value.length > 0) {
+          throw new Error(`Expected palettes to be lists of compounds, but found ${list.type}`)
+        }
+        return list.value as NbtValues['compound'][]
+      })
+      ?? [getListTag(nbt.value, 'palette', 'compound')]
+    if (palettes.length === 0 || palettes.some(p => p.length !== palettes[0].length)) {
+      throw new Error('Expected at least one palette, all with the same number of states')
+    }
+    const [palette, ...variants] = palettes.map(p => p.map(tags => BlockState.fromNbt({name: '', value: tags})))
     const blocks = getListTag(nbt.value, 'blocks', 'compound')
       .map(tags => {
         const pos = getListTag(tags, 'pos', 'int', 3) as BlockPos
@@ -65,6 +448,32 @@ export class Structure implements StructureProvider {
         const nbt = getOptional(() => getTag(tags, 'nbt', 'compound'), undefined)
         return { pos, state, nbt }
       })
-    return new Structure(size, palette, blocks)
+    const entities = getOptional(() => getListTag(nbt.value, 'entities', 'compound'), [])
+      .map(tags => {
+        const pos = getListTag(tags, 'pos', 'double', 3) as [number, number, number]
+        const blockPos = getListTag(tags, 'blockPos', 'int', 3) as BlockPos
+        const nbt = getTag(tags, 'nbt', 'compound')
+        return { pos, blockPos, nbt }
+      })
+    const structure = new Structure(size, palette, blocks, entities)
+    structure.palettes.push(...variants)
+    const dataVersion = getOptional(() => getTag(nbt.value, 'DataVersion', 'int'), undefined)
+    if (dataVersion !== undefined) {
+      structure.dataVersion = dataVersion
+    }
+    return structure
+  }
+}
+
+function isAir(state: BlockState) {
+  const name = state.getName()
+  return name === 'minecraft:air' || name === 'minecraft:cave_air' || name === 'minecraft:void_air'
+}
+
+function shiftEntity(entity: StructureEntity, offset: number[]): StructureEntity {
+  return {
+    pos: entity.pos.map((v, i) => v + offset[i]) as StructureEntity['pos'],
+    blockPos: entity.blockPos.map((v, i) => v + offset[i]) as BlockPos,
+    nbt: entity.nbt,
   }
 }
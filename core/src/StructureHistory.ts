@@ -0,0 +1,200 @@
+import { Structure, StructureBlockData } from "./Structure";
+import { BlockPos, StructureEntity } from "./StructureProvider";
+
+export type StructureHistoryOptions = {
+  /** Maximum number of undo steps, defaults to 100 */
+  maxSteps?: number
+  /** Maximum number of block changes kept over all steps, defaults to 1,000,000 */
+  maxChanges?: number
+}
+
+/** The positions affected by a transaction, undo or redo */
+export type StructureHistoryChange = {
+  positions: BlockPos[]
+  /** Whether the bounds of the structure changed, which moves all blocks */
+  resized: boolean
+}
+
+type Operation =
+  | { kind: 'block', pos: BlockPos, previous: StructureBlockData | null, next: StructureBlockData | null }
+  | { kind: 'resize', previousSize: BlockPos, size: BlockPos, offset: BlockPos, removed: (StructureBlockData & { pos: BlockPos })[] }
+
+type Step = {
+  operations: Operation[]
+  entitiesBefore: StructureEntity[]
+  entitiesAfter: StructureEntity[]
+  changes: number
+}
+
+/**
+ * Records edits of a structure made in transactions so they can be undone.
+ * Edits made outside a transaction can't be undone and clear the history.
+ */
+export class StructureHistory {
+  private undoSteps: Step[] = []
+  private redoSteps: Step[] = []
+  private current: Step | undefined
+  private applying = false
+  private listeners: ((change: StructureHistoryChange) => void)[] = []
+  private untrack: () => void
+  private maxSteps: number
+  private maxChanges: number
+
+  constructor(
+    private structure: Structure,
+    options: StructureHistoryOptions = {}
+  ) {
+    this.maxSteps = options.maxSteps ?? 100
+    this.maxChanges = options.maxChanges ?? 1000000
+    this.untrack = structure.track({
+      block: (pos, previous, next) => this.record({ kind: 'block', pos, previous, next }),
+      resize: (previousSize, size, offset, removed) => this.record({ kind: 'resize', previousSize, size, offset, removed }),
+    })
+  }
+
+  public getStructure() {
+    return this.structure
+  }
+
+  /**
+   * Runs the edits as a single undoable step. Nested transactions are
+   * merged into the outermost one. Listeners of the structure are notified
+   * once at the end. If `edit` throws, its changes are rolled back.
+   */
+  public transaction(edit: (structure: Structure) => void): StructureHistoryChange | undefined {
+    if (this.current) {
+      edit(this.structure)
+      return undefined
+    }
+    const step: Step = { operations: [], entitiesBefore: this.structure.getEntities(), entitiesAfter: [], changes: 0 }
+    this.current = step
+    try {
+      this.structure.batch(structure => {
+        try {
+          edit(structure)
+        } catch (e) {
+          this.apply(() => this.revert(step))
+          throw e
+        }
+      })
+    } finally {
+      this.current = undefined
+      step.entitiesAfter = this.structure.getEntities()
+    }
+    if (step.operations.length === 0 && step.entitiesAfter === step.entitiesBefore) {
+      return undefined
+    }
+    this.undoSteps.push(step)
+    this.redoSteps = []
+    this.trim()
+    return this.emit(step)
+  }
+
+  public canUndo() {
+    return this.undoSteps.length > 0
+  }
+
+  public canRedo() {
+    return this.redoSteps.length > 0
+  }
+
+  public undo() {
+    const step = this.undoSteps.pop()
+    if (!step) return undefined
+    this.apply(() => this.revert(step))
+    this.redoSteps.push(step)
+    return this.emit(step)
+  }
+
+  public redo() {
+    const step = this.redoSteps.pop()
+    if (!step) return undefined
+    this.apply(() => {
+      step.operations.forEach(op => {
+        if (op.kind === 'block') {
+          this.structure.setBlock(op.pos, op.next?.state ?? null, op.next?.nbt)
+        } else {
+          this.structure.resize(op.size, op.offset)
+        }
+      })
+      this.structure.setEntities(step.entitiesAfter)
+    })
+    this.undoSteps.push(step)
+    return this.emit(step)
+  }
+
+  public clear() {
+    this.undoSteps = []
+    this.redoSteps = []
+  }
+
+  /** Stops recording changes of the structure */
+  public dispose() {
+    this.untrack()
+    this.clear()
+    this.listeners = []
+  }
+
+  /** Adds a listener called after each transaction, undo and redo, returns a function to remove it */
+  public onChange(listener: (change: StructureHistoryChange) => void) {
+    this.listeners.push(listener)
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener)
+    }
+  }
+
+  private record(operation: Operation) {
+    if (this.applying) return
+    if (!this.current) {
+      this.clear()
+      return
+    }
+    this.current.operations.push(operation)
+    this.current.changes += operation.kind === 'block' ? 1 : operation.removed.length + 1
+  }
+
+  private revert(step: Step) {
+    for (let i = step.operations.length - 1; i >= 0; i -= 1) {
+      const op = step.operations[i]
+      if (op.kind === 'block') {
+        this.structure.setBlock(op.pos, op.previous?.state ?? null, op.previous?.nbt)
+      } else {
+        this.structure.resize(op.previousSize, op.offset.map(v => -v) as BlockPos)
+        op.removed.forEach(b => this.structure.setBlock(b.pos, b.state, b.nbt))
+      }
+    }
+    this.structure.setEntities(step.entitiesBefore)
+  }
+
+  private apply(fn: () => void) {
+    this.applying = true
+    try {
+      this.structure.batch(fn)
+    } finally {
+      this.applying = false
+    }
+  }
+
+  private trim() {
+    let changes = this.undoSteps.reduce((sum, step) => sum + step.changes, 0)
+    while (this.undoSteps.length > this.maxSteps || (changes > this.maxChanges && this.undoSteps.length > 1)) {
+      changes -= this.undoSteps.shift()!.changes
+    }
+  }
+
+  private emit(step: Step): StructureHistoryChange {
+    const positions = new Map<string, BlockPos>()
+    let resized = false
+    step.operations.forEach(op => {
+      if (op.kind === 'block') {
+        positions.set(op.pos.join(','), op.pos)
+      } else {
+        resized = true
+        op.removed.forEach(b => positions.set(b.pos.join(','), b.pos))
+      }
+    })
+    const change = { positions: [...positions.values()], resized }
+    this.listeners.forEach(l => l(change))
+    return change
+  }
+}
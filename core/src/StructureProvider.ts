@@ -4,8 +4,32 @@ import { BlockState } from "./BlockState";
 export type BlockPos = [number, number, number]
 export type BlockNbt = { [key: string]: NbtTag }
 
+export type StructureEntity = {
+  pos: [number, number, number]
+  blockPos: BlockPos
+  nbt: BlockNbt
+}
+
+/**
+ * A `size` change means any block may have moved, and a `palette` change
+ * that any block may have a different state, so neither is followed by
+ * events for the individual blocks.
+ */
+export type StructureChange =
+  | { type: 'block', pos: BlockPos }
+  | { type: 'bulk', positions: BlockPos[] }
+  | { type: 'size', previousSize: BlockPos, size: BlockPos }
+  | { type: 'palette', palette: number }
+
+export type StructureListener = (change: StructureChange) => void
+
 export interface StructureProvider {
   getSize(): BlockPos
   getBlocks(): { pos: BlockPos; state: BlockState; nbt: BlockNbt | undefined }[]
   getBlock(pos: BlockPos): { pos: BlockPos; state: BlockState; nbt: BlockNbt | undefined } | null
+  getPaletteCount?(): number
+  setActivePalette?(index: number): void
+  getEntities?(): StructureEntity[]
+  /** Adds a listener called after the structure changed, returns a function to remove it */
+  onChange?(listener: StructureListener): () => void
 }
@@ -0,0 +1,41 @@
+import { Structure } from "./Structure";
+import { BlockPos, StructureListener, StructureProvider } from "./StructureProvider";
+
+/** Base of the structure file formats, forwarding the provider methods to the structure they were read into */
+export abstract class StructureWrapper implements StructureProvider {
+  constructor(
+    protected structure: Structure
+  ) {}
+
+  public getStructure() {
+    return this.structure
+  }
+
+  public getSize() {
+    return this.structure.getSize()
+  }
+
+  public getBlocks() {
+    return this.structure.getBlocks()
+  }
+
+  public getBlock(pos: BlockPos) {
+    return this.structure.getBlock(pos)
+  }
+
+  public getPaletteCount() {
+    return this.structure.getPaletteCount()
+  }
+
+  public setActivePalette(index: number) {
+    this.structure.setActivePalette(index)
+  }
+
+  public getEntities() {
+    return this.structure.getEntities()
+  }
+
+  public onChange(listener: StructureListener) {
+    return this.structure.onChange(listener)
+  }
+}
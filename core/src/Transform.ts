@@ -0,0 +1,138 @@
+import { BlockPos } from "./StructureProvider";
+
+export type Rotation = 'NONE' | 'CLOCKWISE_90' | 'CLOCKWISE_180' | 'COUNTERCLOCKWISE_90'
+
+/** `LEFT_RIGHT` flips the z axis and `FRONT_BACK` flips the x axis */
+export type Mirror = 'NONE' | 'LEFT_RIGHT' | 'FRONT_BACK'
+
+const horizontal = ['north', 'east', 'south', 'west']
+
+const steps: { [rotation in Rotation]: number } = {
+  NONE: 0,
+  CLOCKWISE_90: 1,
+  CLOCKWISE_180: 2,
+  COUNTERCLOCKWISE_90: 3,
+}
+
+export function rotationSteps(rotation: Rotation) {
+  return steps[rotation]
+}
+
+export function rotateDirection(direction: string, rotation: Rotation) {
+  const i = horizontal.indexOf(direction)
+  return i === -1 ? direction : horizontal[(i + steps[rotation]) % 4]
+}
+
+export function mirrorDirection(direction: string, mirror: Mirror) {
+  switch (mirror) {
+    case 'LEFT_RIGHT': return direction === 'north' ? 'south' : direction === 'south' ? 'north' : direction
+    case 'FRONT_BACK': return direction === 'east' ? 'west' : direction === 'west' ? 'east' : direction
+    default: return direction
+  }
+}
+
+/** Transforms a position inside a box of the given size, keeping it inside the transformed box */
+export function rotatePos(pos: BlockPos, rotation: Rotation, size: BlockPos): BlockPos {
+  return rotatePoint(pos, rotation, [size[0] - 1, size[1] - 1, size[2] - 1]) as BlockPos
+}
+
+export function mirrorPos(pos: BlockPos, mirror: Mirror, size: BlockPos): BlockPos {
+  return mirrorPoint(pos, mirror, [size[0] - 1, size[1] - 1, size[2] - 1]) as BlockPos
+}
+
+/** Like `rotatePos`, but for exact positions such as those of entities */
+export function rotatePoint([x, y, z]: number[], rotation: Rotation, size: number[]): [number, number, number] {
+  switch (rotation) {
+    case 'CLOCKWISE_90': return [size[2] - z, y, x]
+    case 'CLOCKWISE_180': return [size[0] - x, y, size[2] - z]
+    case 'COUNTERCLOCKWISE_90': return [z, y, size[0] - x]
+    default: return [x, y, z]
+  }
+}
+
+export function mirrorPoint([x, y, z]: number[], mirror: Mirror, size: number[]): [number, number, number] {
+  switch (mirror) {
+    case 'LEFT_RIGHT': return [x, y, size[2] - z]
+    case 'FRONT_BACK': return [size[0] - x, y, z]
+    default: return [x, y, z]
+  }
+}
+
+type PropertyTransform = {
+  direction: (direction: string) => string
+  axis: (axis: string) => string
+  /** Transforms the 16-step rotation of signs, banners and skulls */
+  rotation16: (rotation: number) => number
+  mirrored: boolean
+}
+
+export function rotateProperties(properties: { [key: string]: string }, rotation: Rotation) {
+  const quarter = steps[rotation] % 2 === 1
+  return transformProperties(properties, {
+    direction: d => rotateDirection(d, rotation),
+    axis: a => quarter && a === 'x' ? 'z' : quarter && a === 'z' ? 'x' : a,
+    rotation16: r => (r + steps[rotation] * 4) % 16,
+    mirrored: false,
+  })
+}
+
+export function mirrorProperties(properties: { [key: string]: string }, mirror: Mirror) {
+  return transformProperties(properties, {
+    direction: d => mirrorDirection(d, mirror),
+    axis: a => a,
+    rotation16: r => mirror === 'LEFT_RIGHT' ? (24 - r) % 16 : mirror === 'FRONT_BACK' ? (16 - r) % 16 : r,
+    mirrored: mirror !== 'NONE',
+  })
+}
+
+function transformProperties(properties: { [key: string]: string }, t: PropertyTransform) {
+  const result: { [key: string]: string } = {}
+  Object.keys(properties).forEach(key => {
+    const value = properties[key]
+    // Connection properties of fences, walls, panes, redstone and vines
+    result[horizontal.includes(key) ? t.direction(key) : key] = transformValue(key, value, t)
+  })
+  return result
+}
+
+function transformValue(key: string, value: string, t: PropertyTransform) {
+  switch (key) {
+    case 'facing':
+      return t.direction(value)
+    case 'axis':
+      return t.axis(value)
+    case 'rotation':
+      return `${t.rotation16(parseInt(value))}`
+    case 'orientation':
+      return value.split('_').map(t.direction).join('_')
+    case 'shape':
+      if (/^(inner|outer)_(left|right)$/.test(value)) {
+        return t.mirrored ? swapSide(value) : value
+      }
+      return transformRailShape(value, t)
+    case 'hinge':
+    case 'type':
+      return t.mirrored ? swapSide(value) : value
+    default:
+      return value
+  }
+}
+
+function swapSide(value: string) {
+  return value.replace(/left|right/, side => side === 'left' ? 'right' : 'left')
+}
+
+function transformRailShape(shape: string, t: PropertyTransform) {
+  if (shape.startsWith('ascending_')) {
+    return `ascending_${t.direction(shape.slice(10))}`
+  }
+  const directions = shape.split('_')
+  if (directions.length !== 2 || !directions.every(d => horizontal.includes(d))) {
+    return shape
+  }
+  const [a, b] = directions.map(t.direction)
+  if ((a === 'north' || a === 'south') === (b === 'north' || b === 'south')) {
+    return a === 'north' || a === 'south' ? 'north_south' : 'east_west'
+  }
+  return a === 'north' || a === 'south' ? `${a}_${b}` : `${b}_${a}`
+}
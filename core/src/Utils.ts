@@ -0,0 +1,14 @@
+import { NbtTag } from "@webmc/nbt";
+import { BlockNbt } from "./StructureProvider";
+
+/** Reads an optional list of compounds, which may also be an empty list of another type */
+export function readCompounds(tags: BlockNbt, name: string): BlockNbt[] {
+  const list: NbtTag | undefined = tags[name]
+  if (list === undefined || (list.type === 'list' && list.value.value.length === 0)) {
+    return []
+  }
+  if (list.type !== 'list' || list.value.type !== 'compound') {
+    throw new Error(`Expected ${name} to be a list of compounds`)
+  }
+  return list.value.value
+}
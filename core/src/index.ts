@@ -1,3 +1,13 @@
 export * from "./BlockState"
 export * from "./Structure"
 export * from "./StructureProvider"
+export * from "./StructureWrapper"
+export * from "./SpongeSchematic"
+export * from "./LegacyBlocks"
+export * from "./McEditSchematic"
+export * from "./Litematic"
+export * from "./BedrockBlocks"
+export * from "./McStructure"
+export * from "./Transform"
+export * from "./StructureHistory"
+export * from "./BlockRegistry"
@@ -0,0 +1,64 @@
+import "mocha";
+import { expect } from 'chai';
+import { BlockRegistry, BlockReport } from '../src/BlockRegistry';
+import { BlockState } from "../src/BlockState";
+
+const report: BlockReport = {
+  'minecraft:stone': {
+    states: [{ id: 1, default: true }],
+  },
+  'minecraft:oak_slab': {
+    properties: { type: ['top', 'bottom', 'double'], waterlogged: ['true', 'false'] },
+    states: [
+      { id: 8301, properties: { type: 'top', waterlogged: 'true' } },
+      { id: 8302, properties: { type: 'top', waterlogged: 'false' } },
+      { id: 8303, properties: { type: 'bottom', waterlogged: 'true' } },
+      { id: 8304, properties: { type: 'bottom', waterlogged: 'false' }, default: true },
+      { id: 8305, properties: { type: 'double', waterlogged: 'true' } },
+      { id: 8306, properties: { type: 'double', waterlogged: 'false' } },
+    ],
+  },
+}
+
+describe('BlockRegistry', () => {
+  it('fromReport', () => {
+    const registry = BlockRegistry.fromReport(report)
+    expect(registry.getNames()).to.deep.equal(['minecraft:stone', 'minecraft:oak_slab'])
+    expect(registry.getBlockProperties('minecraft:stone')).to.deep.equal({})
+    expect(registry.getDefaultBlockProperties('minecraft:oak_slab')).to.deep.equal({ type: 'bottom', waterlogged: 'false' })
+    expect(registry.getBlockProperties('minecraft:dirt')).to.be.null
+    expect(registry.has('toString')).to.be.false
+  })
+
+  it('validate', () => {
+    const registry = BlockRegistry.fromReport(report)
+    expect(registry.validate(new BlockState('minecraft:oak_slab', { type: 'top' }))).to.be.empty
+    expect(registry.validate(new BlockState('minecraft:dirt')).map(v => v.type)).to.deep.equal(['unknown_block'])
+    const violations = registry.validate(new BlockState('minecraft:oak_slab', { type: 'side', facing: 'up' }))
+    expect(violations.map(v => [v.type, v.property])).to.deep.equal([['illegal_value', 'type'], ['unknown_property', 'facing']])
+    expect(() => registry.assertValid(new BlockState('minecraft:stone', { snowy: 'true' })))
+      .to.throw("Unknown property 'snowy' for block minecraft:stone")
+  })
+
+  it('withDefaults', () => {
+    const registry = BlockRegistry.fromReport(report)
+    const state = new BlockState('minecraft:oak_slab', { type: 'top' })
+    const filled = registry.withDefaults(state)
+    expect(filled.getProperties()).to.deep.equal({ type: 'top', waterlogged: 'false' })
+    expect(state.getProperties()).to.deep.equal({ type: 'top' })
+    expect(registry.withDefaults(filled)).to.equal(filled)
+
+    const defaults = registry.getDefaultState('minecraft:oak_slab')
+    defaults.getProperties().type = 'double'
+    expect(registry.getDefaultBlockProperties('minecraft:oak_slab')?.type).to.equal('bottom')
+  })
+
+  it('getStates', () => {
+    const registry = BlockRegistry.fromReport(report)
+    expect(registry.getStates('minecraft:stone')).to.deep.equal([new BlockState('minecraft:stone')])
+    const states = registry.getStates('minecraft:oak_slab')
+    expect(states.map(s => s.toString())).to.deep.equal(report['minecraft:oak_slab'].states
+      .map(s => new BlockState('minecraft:oak_slab', s.properties).toString()))
+    expect(() => registry.getStates('minecraft:dirt')).to.throw('Unknown block minecraft:dirt')
+  })
+})
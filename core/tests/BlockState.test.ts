@@ -1,7 +1,7 @@
 import "mocha";
 import { expect } from 'chai';
 import { BlockState } from '../src/BlockState';
-import { NamedNbtTag } from "@webmc/nbt";
+import { NamedNbtTag, Nbt } from "@webmc/nbt";
 
 describe('BlockState', () => {
   it('getName', () => {
@@ -43,6 +43,55 @@ describe('BlockState', () => {
     expect(string).to.equal('minecraft:piston[extended=false,facing=up]')
   })
 
+  it('toString (canonical)', () => {
+    expect(new BlockState('minecraft:stone').toString()).to.equal('minecraft:stone')
+    const state = new BlockState('minecraft:oak_stairs', { half: 'top', facing: 'east' })
+    expect(state.toString()).to.equal('minecraft:oak_stairs[facing=east,half=top]')
+    expect(state.toString({ Lock: Nbt.string('key') })).to.equal('minecraft:oak_stairs[facing=east,half=top]{Lock:"key"}')
+  })
+
+  it('parse', () => {
+    const state = BlockState.parse('minecraft:oak_stairs[facing=east,half=top]')
+    expect(state).to.deep.equal(new BlockState('minecraft:oak_stairs', { facing: 'east', half: 'top' }))
+    expect(BlockState.parse('stone')).to.deep.equal(new BlockState('minecraft:stone'))
+    expect(BlockState.parse('mod:machine/core[]')).to.deep.equal(new BlockState('mod:machine/core'))
+    expect(BlockState.parse(' oak_stairs [ facing = east , half=top ] ').toString())
+      .to.equal('minecraft:oak_stairs[facing=east,half=top]')
+  })
+
+  it('parse (round trip)', () => {
+    const state = new BlockState('minecraft:chest', { type: 'single', facing: 'north', waterlogged: 'false' })
+    expect(BlockState.parse(state.toString())).to.deep.equal(new BlockState('minecraft:chest', { facing: 'north', type: 'single', waterlogged: 'false' }))
+  })
+
+  it('parse (errors)', () => {
+    const error = (text: string) => {
+      try {
+        BlockState.parseWithNbt(text)
+      } catch (e) {
+        return e
+      }
+      throw new Error(`Expected ${text} to fail`)
+    }
+    expect(error('')).to.include({ name: 'BlockStateParseError', offset: 0 })
+    expect(error('Stone')).to.include({ offset: 0, message: "Invalid character 'S' in block name at column 1" })
+    expect(error('stone[facing]')).to.include({ offset: 12, message: "Expected '=' but found ']' at column 13" })
+    expect(error('stone[facing=]')).to.include({ offset: 13 })
+    expect(error('stone[a=b,a=c]')).to.include({ offset: 10, message: "Duplicate property 'a' at column 11" })
+    expect(error('stone[a=b')).to.include({ offset: 9, message: "Expected ',' at column 10" })
+    expect(error('stone x')).to.include({ offset: 6 })
+    expect(error('stone{a:}')).to.include({ offset: 8, message: 'Invalid block entity data: Expected value at column 9' })
+    expect(error('stone{} x')).to.include({ offset: 8 })
+    expect(() => BlockState.parse('chest{}')).to.throw('Unexpected block entity data at column 6')
+  })
+
+  it('parseWithNbt', () => {
+    const { state, nbt } = BlockState.parseWithNbt('chest[facing=west]{Lock:"key", Items:[]}')
+    expect(state).to.deep.equal(new BlockState('minecraft:chest', { facing: 'west' }))
+    expect(nbt).to.deep.equal({ Lock: Nbt.string('key'), Items: { type: 'list', value: { type: 'end', value: [] } } })
+    expect(BlockState.parseWithNbt('stone').nbt).to.be.undefined
+  })
+
   it('fromNbt (no properties)', () => {
     const nbt: NamedNbtTag = { name: '', value: {
       Name: { type: 'string', value: 'minecraft:stone' }
@@ -66,4 +115,66 @@ describe('BlockState', () => {
 
     expect(stateA).to.deep.equal(stateB)
   })
+
+  it('toNbt', () => {
+    expect(new BlockState('minecraft:stone').toNbt()).to.deep.equal({ name: '', value: {
+      Name: { type: 'string', value: 'minecraft:stone' }
+    } })
+    const state = new BlockState('minecraft:piston', { extended: 'false', facing: 'up' })
+    expect(BlockState.fromNbt(state.toNbt())).to.deep.equal(state)
+  })
+
+  it('rotate', () => {
+    const stairs = new BlockState('minecraft:oak_stairs', { facing: 'north', half: 'top', shape: 'inner_left' })
+    expect(stairs.rotate('CLOCKWISE_90').getProperties()).to.deep.equal({ facing: 'east', half: 'top', shape: 'inner_left' })
+    expect(stairs.rotate('COUNTERCLOCKWISE_90').getProperty('facing')).to.equal('west')
+    expect(stairs.rotate('NONE')).to.deep.equal(stairs)
+
+    const log = new BlockState('minecraft:oak_log', { axis: 'x' })
+    expect(log.rotate('CLOCKWISE_90').getProperty('axis')).to.equal('z')
+    expect(log.rotate('CLOCKWISE_180').getProperty('axis')).to.equal('x')
+
+    const sign = new BlockState('minecraft:oak_sign', { rotation: '14', waterlogged: 'false' })
+    expect(sign.rotate('CLOCKWISE_90').getProperty('rotation')).to.equal('2')
+
+    const fence = new BlockState('minecraft:oak_fence', { north: 'true', east: 'false', south: 'false', west: 'true' })
+    expect(fence.rotate('CLOCKWISE_90').getProperties()).to.deep.equal({ east: 'true', south: 'false', west: 'false', north: 'true' })
+
+    const rail = new BlockState('minecraft:rail', { shape: 'north_east' })
+    expect(rail.rotate('CLOCKWISE_90').getProperty('shape')).to.equal('south_east')
+    expect(rail.rotate('CLOCKWISE_180').getProperty('shape')).to.equal('south_west')
+    expect(new BlockState('minecraft:rail', { shape: 'north_south' }).rotate('CLOCKWISE_90').getProperty('shape')).to.equal('east_west')
+    expect(new BlockState('minecraft:rail', { shape: 'ascending_west' }).rotate('CLOCKWISE_90').getProperty('shape')).to.equal('ascending_north')
+
+    const jigsaw = new BlockState('minecraft:jigsaw', { orientation: 'up_north' })
+    expect(jigsaw.rotate('CLOCKWISE_90').getProperty('orientation')).to.equal('up_east')
+    const hopper = new BlockState('minecraft:hopper', { facing: 'down' })
+    expect(hopper.rotate('CLOCKWISE_90').getProperty('facing')).to.equal('down')
+  })
+
+  it('mirror', () => {
+    const stairs = new BlockState('minecraft:oak_stairs', { facing: 'north', shape: 'outer_right' })
+    expect(stairs.mirror('LEFT_RIGHT').getProperties()).to.deep.equal({ facing: 'south', shape: 'outer_left' })
+    expect(stairs.mirror('FRONT_BACK').getProperties()).to.deep.equal({ facing: 'north', shape: 'outer_left' })
+    expect(stairs.mirror('NONE')).to.deep.equal(stairs)
+
+    const door = new BlockState('minecraft:oak_door', { facing: 'east', hinge: 'left', half: 'lower' })
+    expect(door.mirror('FRONT_BACK').getProperties()).to.deep.equal({ facing: 'west', hinge: 'right', half: 'lower' })
+
+    const chest = new BlockState('minecraft:chest', { facing: 'west', type: 'left' })
+    expect(chest.mirror('LEFT_RIGHT').getProperties()).to.deep.equal({ facing: 'west', type: 'right' })
+    const slab = new BlockState('minecraft:oak_slab', { type: 'top' })
+    expect(slab.mirror('LEFT_RIGHT').getProperty('type')).to.equal('top')
+
+    const banner = new BlockState('minecraft:white_banner', { rotation: '3' })
+    expect(banner.mirror('LEFT_RIGHT').getProperty('rotation')).to.equal('5')
+    expect(banner.mirror('FRONT_BACK').getProperty('rotation')).to.equal('13')
+
+    const rail = new BlockState('minecraft:rail', { shape: 'south_east' })
+    expect(rail.mirror('LEFT_RIGHT').getProperty('shape')).to.equal('north_east')
+    expect(rail.mirror('FRONT_BACK').getProperty('shape')).to.equal('south_west')
+
+    const wire = new BlockState('minecraft:redstone_wire', { north: 'side', east: 'up', south: 'none', west: 'none' })
+    expect(wire.mirror('FRONT_BACK').getProperties()).to.deep.equal({ north: 'side', west: 'up', south: 'none', east: 'none' })
+  })
 })
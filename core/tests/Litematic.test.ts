@@ -0,0 +1,121 @@
+import "mocha";
+import { expect } from 'chai';
+import { NamedNbtTag, NbtTag } from "@webmc/nbt";
+import { Litematic, LitematicRegion } from '../src/Litematic';
+import { Structure } from '../src/Structure';
+import { BlockState } from '../src/BlockState';
+
+const vec = (x: number, y: number, z: number): NbtTag => ({ type: 'compound', value: {
+  x: { type: 'int', value: x },
+  y: { type: 'int', value: y },
+  z: { type: 'int', value: z },
+} })
+
+const state = (name: string): { [key: string]: NbtTag } => ({ Name: { type: 'string', value: name } })
+
+function litematic(): NamedNbtTag {
+  return { name: '', value: {
+    Version: { type: 'int', value: 5 },
+    MinecraftDataVersion: { type: 'int', value: 2586 },
+    Metadata: { type: 'compound', value: {
+      Name: { type: 'string', value: 'house' },
+      Author: { type: 'string', value: 'steve' },
+      Description: { type: 'string', value: '' },
+    } },
+    Regions: { type: 'compound', value: {
+      // 22 values of 3 bits, the last one crosses into the second long
+      row: { type: 'compound', value: {
+        Position: vec(21, 0, 0),
+        Size: vec(-22, 1, 1),
+        BlockStatePalette: { type: 'list', value: { type: 'compound', value: [
+          state('minecraft:air'), state('minecraft:stone'), state('minecraft:dirt'),
+          state('minecraft:sand'), state('minecraft:gravel'), state('minecraft:chest'),
+        ] } },
+        BlockStates: { type: 'longArray', value: [[-2147483648, 1], [0, 2]] },
+        TileEntities: { type: 'list', value: { type: 'compound', value: [{
+          x: { type: 'int', value: 21 },
+          y: { type: 'int', value: 0 },
+          z: { type: 'int', value: 0 },
+          id: { type: 'string', value: 'minecraft:chest' },
+        }] } },
+        Entities: { type: 'list', value: { type: 'end', value: [] } },
+      } },
+      tower: { type: 'compound', value: {
+        Position: vec(0, 0, 2),
+        Size: vec(1, 2, 1),
+        BlockStatePalette: { type: 'list', value: { type: 'compound', value: [
+          state('minecraft:air'), state('minecraft:stone'),
+        ] } },
+        BlockStates: { type: 'longArray', value: [[0, 4]] },
+      } },
+    } },
+  } }
+}
+
+describe('Litematic', () => {
+  it('fromNbt', () => {
+    const schematic = Litematic.fromNbt(litematic())
+    expect(schematic.getMetadata()).to.include({ name: 'house', author: 'steve' })
+    expect(schematic.getRegions().map(r => r.getName())).to.deep.equal(['row', 'tower'])
+
+    const row = schematic.getRegion('row')!
+    expect(row.getPosition()).to.deep.equal([0, 0, 0])
+    expect(row.getSize()).to.deep.equal([22, 1, 1])
+    expect(row.getBlock([0, 0, 0])?.state.getName()).to.equal('minecraft:stone')
+    expect(row.getBlock([1, 0, 0])?.state.getName()).to.equal('minecraft:air')
+    const chest = row.getBlock([21, 0, 0])
+    expect(chest?.state.getName()).to.equal('minecraft:chest')
+    expect(chest?.nbt).to.deep.equal({ id: { type: 'string', value: 'minecraft:chest' } })
+
+    const tower = schematic.getRegion('tower')!
+    expect(tower.getBlock([0, 0, 0])?.state.getName()).to.equal('minecraft:air')
+    expect(tower.getBlock([0, 1, 0])?.state.getName()).to.equal('minecraft:stone')
+  })
+
+  it('getMerged', () => {
+    const merged = Litematic.fromNbt(litematic()).getMerged()
+    expect(merged.getSize()).to.deep.equal([22, 2, 3])
+    expect(merged.getBlock([21, 0, 0])?.state.getName()).to.equal('minecraft:chest')
+    expect(merged.getBlock([0, 1, 2])?.state.getName()).to.equal('minecraft:stone')
+    expect(merged.getBlock([5, 1, 1])).to.be.null
+  })
+
+  it('getMerged (after editing a region)', () => {
+    const schematic = Litematic.fromNbt(litematic())
+    schematic.getMerged()
+    schematic.getRegion('row')!.getStructure().setBlock([1, 0, 0], new BlockState('minecraft:dirt'))
+    expect(schematic.getMerged().getBlock([1, 0, 0])?.state.getName()).to.equal('minecraft:dirt')
+  })
+
+  it('toNbt', () => {
+    const structure = new Structure([3, 3, 3])
+    const names = ['air', 'stone', 'dirt', 'sand', 'gravel']
+    for (let i = 0; i < 27; i += 1) {
+      structure.addBlock([i % 3, Math.floor(i / 9), Math.floor(i / 3) % 3], `minecraft:${names[i % 5]}`)
+    }
+    structure.addBlock([2, 2, 2], 'minecraft:chest', {}, { id: { type: 'string', value: 'minecraft:chest' } })
+    const schematic = new Litematic([new LitematicRegion('main', structure, [1, -1, 0])], {
+      name: 'test', author: 'alex', description: 'cube', timeCreated: 1, timeModified: 2,
+    })
+    const nbt = schematic.toNbt()
+    const metadata = nbt.value.Metadata.value as { [key: string]: NbtTag }
+    expect(metadata.TotalBlocks).to.deep.equal({ type: 'int', value: 21 })
+    expect(metadata.TimeCreated).to.deep.equal({ type: 'long', value: [0, 1] })
+
+    const result = Litematic.fromNbt(nbt)
+    expect(result.getMetadata()).to.deep.equal(schematic.getMetadata())
+    const region = result.getRegion('main')!
+    expect(region.getPosition()).to.deep.equal([1, -1, 0])
+    for (let i = 0; i < 27; i += 1) {
+      const pos: [number, number, number] = [i % 3, Math.floor(i / 9), Math.floor(i / 3) % 3]
+      expect(region.getBlock(pos)?.state.getName()).to.equal(structure.getBlock(pos)?.state.getName())
+    }
+    expect(region.getBlock([2, 2, 2])?.nbt).to.deep.equal({ id: { type: 'string', value: 'minecraft:chest' } })
+  })
+
+  it('fromNbt (invalid)', () => {
+    const nbt = litematic()
+    nbt.value.Version = { type: 'int', value: 7 }
+    expect(() => Litematic.fromNbt(nbt)).to.throw('Unsupported litematic version 7')
+  })
+})
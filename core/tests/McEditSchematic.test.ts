@@ -0,0 +1,85 @@
+import "mocha";
+import { expect } from 'chai';
+import { NamedNbtTag, NbtTag } from "@webmc/nbt";
+import { BlockState } from '../src/BlockState';
+import { McEditSchematic } from '../src/McEditSchematic';
+
+function schematic(blocks: number[], data: number[], extra = {}): NamedNbtTag {
+  return { name: 'Schematic', value: {
+    Width: { type: 'short', value: 2 },
+    Height: { type: 'short', value: 2 },
+    Length: { type: 'short', value: 1 },
+    Materials: { type: 'string', value: 'Alpha' },
+    Blocks: { type: 'byteArray', value: blocks },
+    Data: { type: 'byteArray', value: data },
+    Entities: { type: 'list', value: { type: 'end', value: [] } },
+    TileEntities: { type: 'list', value: { type: 'end', value: [] } },
+    ...extra,
+  } }
+}
+
+describe('McEditSchematic', () => {
+  it('fromNbt', () => {
+    const result = McEditSchematic.fromNbt(schematic([1, 35, 54, 53], [0, 14, 2, 6], {
+      TileEntities: { type: 'list', value: { type: 'compound', value: [{
+        id: { type: 'string', value: 'Chest' },
+        x: { type: 'int', value: 0 },
+        y: { type: 'int', value: 1 },
+        z: { type: 'int', value: 0 },
+        Lock: { type: 'string', value: 'key' },
+      }] } },
+    }))
+    expect(result.getSize()).to.deep.equal([2, 2, 1])
+    expect(result.getUnmapped()).to.deep.equal([])
+    expect(result.getBlock([0, 0, 0])?.state.getName()).to.equal('minecraft:stone')
+    expect(result.getBlock([1, 0, 0])?.state.getName()).to.equal('minecraft:red_wool')
+    const chest = result.getBlock([0, 1, 0])
+    expect(chest?.state.getName()).to.equal('minecraft:chest')
+    expect(chest?.state.getProperties()).to.deep.equal({ facing: 'north', type: 'single', waterlogged: 'false' })
+    expect(chest?.nbt).to.deep.equal({
+      id: { type: 'string', value: 'minecraft:chest' },
+      Lock: { type: 'string', value: 'key' },
+    })
+    expect(result.getBlock([1, 1, 0])?.state.getProperties()).to.deep.equal({
+      facing: 'south', half: 'top', shape: 'straight', waterlogged: 'false',
+    })
+  })
+
+  it('fromNbt (entities)', () => {
+    const entities = (pos: NbtTag) => schematic([0, 0, 0, 0], [0, 0, 0, 0], {
+      Entities: { type: 'list', value: { type: 'compound', value: [{ Pos: pos }] } },
+    })
+    const result = McEditSchematic.fromNbt(entities({ type: 'list', value: { type: 'double', value: [1.5, 0, 0.5] } }))
+    expect(result.getEntities().map(e => e.blockPos)).to.deep.equal([[1, 0, 0]])
+    expect(() => McEditSchematic.fromNbt(entities({ type: 'list', value: { type: 'float', value: [1.5, 0, 0.5] } })))
+      .to.throw('Expected Pos to be a list of doubles, but found floats')
+    expect(() => McEditSchematic.fromNbt(entities({ type: 'list', value: { type: 'double', value: [1.5, 0] } })))
+      .to.throw('Expected Pos to be a list of length 3, but found length 2')
+  })
+
+  it('fromNbt (unmapped)', () => {
+    const result = McEditSchematic.fromNbt(schematic([1, 1, 99, 99], [0, 9, 3, 3]))
+    expect(result.getUnmapped()).to.deep.equal([
+      { id: 1, data: 9, positions: [[1, 0, 0]] },
+      { id: 99, data: 3, positions: [[0, 1, 0], [1, 1, 0]] },
+    ])
+    expect(result.getBlocks()).to.have.length(1)
+    expect(result.getBlock([1, 1, 0])).to.be.null
+  })
+
+  it('fromNbt (AddBlocks)', () => {
+    const table = { '258:0': new BlockState('minecraft:test'), '0': new BlockState('minecraft:air') }
+    const result = McEditSchematic.fromNbt(schematic([2, 0, 0, 0], [0, 0, 0, 0], {
+      AddBlocks: { type: 'byteArray', value: [0x01, 0x00] },
+    }), table)
+    expect(result.getBlock([0, 0, 0])?.state.getName()).to.equal('minecraft:test')
+    expect(result.getBlock([1, 0, 0])?.state.getName()).to.equal('minecraft:air')
+  })
+
+  it('fromNbt (invalid)', () => {
+    expect(() => McEditSchematic.fromNbt(schematic([1, 1], [0, 0]))).to.throw('Expected 4 blocks')
+    expect(() => McEditSchematic.fromNbt(schematic([1, 1, 1, 1], [0, 0, 0, 0], {
+      Materials: { type: 'string', value: 'Pocket' },
+    }))).to.throw('Unsupported schematic materials Pocket')
+  })
+})
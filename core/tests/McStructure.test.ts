@@ -0,0 +1,107 @@
+import "mocha";
+import { expect } from 'chai';
+import { NamedNbtTag, NbtTag } from "@webmc/nbt";
+import { McStructure } from '../src/McStructure';
+
+function block(name: string, states: { [key: string]: NbtTag } = {}) {
+  return {
+    name: { type: 'string', value: name },
+    states: { type: 'compound', value: states },
+    version: { type: 'int', value: 17959425 },
+  } as { [key: string]: NbtTag }
+}
+
+function mcstructure(primary: number[], secondary: number[], extra: { [key: string]: NbtTag } = {}): NamedNbtTag {
+  return { name: '', value: {
+    format_version: { type: 'int', value: 1 },
+    size: { type: 'list', value: { type: 'int', value: [1, 2, 2] } },
+    structure_world_origin: { type: 'list', value: { type: 'int', value: [100, 64, -20] } },
+    structure: { type: 'compound', value: {
+      block_indices: { type: 'list', value: { type: 'list', value: [
+        { type: 'int', value: primary },
+        { type: 'int', value: secondary },
+      ] } },
+      entities: { type: 'list', value: { type: 'end', value: [] } },
+      palette: { type: 'compound', value: {
+        default: { type: 'compound', value: {
+          block_palette: { type: 'list', value: { type: 'compound', value: [
+            block('minecraft:oak_stairs', {
+              weirdo_direction: { type: 'int', value: 1 },
+              upside_down_bit: { type: 'byte', value: 0 },
+            }),
+            block('minecraft:water', { liquid_depth: { type: 'int', value: 0 } }),
+            block('minecraft:chest', { facing_direction: { type: 'int', value: 3 } }),
+            block('minecraft:unknown_thing', { variant: { type: 'string', value: 'odd' } }),
+            block('minecraft:air'),
+            block('minecraft:stone', { stone_type: { type: 'string', value: 'granite' } }),
+          ] } },
+          block_position_data: { type: 'compound', value: {
+            '1': { type: 'compound', value: {
+              block_entity_data: { type: 'compound', value: {
+                id: { type: 'string', value: 'Chest' },
+                isMovable: { type: 'byte', value: 1 },
+                x: { type: 'int', value: 100 },
+                y: { type: 'int', value: 64 },
+                z: { type: 'int', value: -19 },
+                CustomName: { type: 'string', value: 'Loot' },
+              } },
+            } },
+          } },
+        } },
+      } },
+      ...extra,
+    } },
+  } }
+}
+
+describe('McStructure', () => {
+  it('fromNbt', () => {
+    const result = McStructure.fromNbt(mcstructure([0, 2, 3, 4], [1, -1, -1, 1], {
+      entities: { type: 'list', value: { type: 'compound', value: [{
+        identifier: { type: 'string', value: 'minecraft:pig' },
+        Pos: { type: 'list', value: { type: 'float', value: [100.5, 65, -19.5] } },
+      }] } },
+    }))
+    expect(result.getSize()).to.deep.equal([1, 2, 2])
+    expect(result.getOrigin()).to.deep.equal([100, 64, -20])
+
+    const stairs = result.getBlock([0, 0, 0])
+    expect(stairs?.state.getName()).to.equal('minecraft:oak_stairs')
+    expect(stairs?.state.getProperties()).to.deep.equal({
+      facing: 'west', half: 'bottom', shape: 'straight', waterlogged: 'true',
+    })
+
+    const chest = result.getBlock([0, 0, 1])
+    expect(chest?.state.getProperties()).to.deep.equal({ facing: 'south', type: 'single', waterlogged: 'false' })
+    expect(chest?.nbt).to.deep.equal({
+      id: { type: 'string', value: 'minecraft:chest' },
+      CustomName: { type: 'string', value: 'Loot' },
+    })
+
+    expect(result.getBlock([0, 1, 0])).to.be.null
+    expect(result.getBlock([0, 1, 1])?.state.getName()).to.equal('minecraft:water')
+    expect(result.getUnmapped()).to.deep.equal([
+      { name: 'minecraft:unknown_thing', states: { variant: 'odd' }, layer: 0, positions: [[0, 1, 0]] },
+    ])
+
+    const [pig] = result.getStructure().getEntities()
+    expect(pig.pos).to.deep.equal([0.5, 1, 0.5])
+    expect(pig.blockPos).to.deep.equal([0, 1, 0])
+    expect(pig.nbt.id).to.deep.equal({ type: 'string', value: 'minecraft:pig' })
+  })
+
+  it('fromNbt (voids and unwaterloggable blocks)', () => {
+    const result = McStructure.fromNbt(mcstructure([-1, 5, 5, -1], [-1, 1, 4, -1]))
+    expect(result.getBlocks()).to.have.length(2)
+    expect(result.getBlock([0, 0, 0])).to.be.null
+    expect(result.getBlock([0, 0, 1])?.state.getName()).to.equal('minecraft:granite')
+    expect(result.getUnmapped()).to.deep.equal([
+      { name: 'minecraft:water', states: { liquid_depth: 0 }, layer: 1, positions: [[0, 0, 1]] },
+    ])
+  })
+
+  it('fromNbt (invalid)', () => {
+    expect(() => McStructure.fromNbt(mcstructure([0, 0], []))).to.throw('Expected 4 block indices in layer 0')
+    expect(() => McStructure.fromNbt(mcstructure([0, 0, 0, 9], []))).to.throw('Invalid palette index 9')
+  })
+})
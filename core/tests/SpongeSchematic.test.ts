@@ -0,0 +1,118 @@
+import "mocha";
+import { expect } from 'chai';
+import { NamedNbtTag } from "@webmc/nbt";
+import { SpongeSchematic } from '../src/SpongeSchematic';
+import { Structure } from '../src/Structure';
+
+function schematicV2(): NamedNbtTag {
+  return { name: 'Schematic', value: {
+    Version: { type: 'int', value: 2 },
+    DataVersion: { type: 'int', value: 2230 },
+    Width: { type: 'short', value: 2 },
+    Height: { type: 'short', value: 2 },
+    Length: { type: 'short', value: 1 },
+    Offset: { type: 'intArray', value: [-1, 0, 3] },
+    PaletteMax: { type: 'int', value: 3 },
+    Palette: { type: 'compound', value: {
+      'minecraft:air': { type: 'int', value: 0 },
+      'minecraft:stone': { type: 'int', value: 1 },
+      'minecraft:chest[facing=north,type=single]': { type: 'int', value: 2 },
+    } },
+    BlockData: { type: 'byteArray', value: [1, 0, 2, 1] },
+    BlockEntities: { type: 'list', value: { type: 'compound', value: [{
+      Pos: { type: 'intArray', value: [0, 1, 0] },
+      Id: { type: 'string', value: 'minecraft:chest' },
+      Lock: { type: 'string', value: 'key' },
+    }] } },
+    Entities: { type: 'list', value: { type: 'compound', value: [] } },
+  } }
+}
+
+describe('SpongeSchematic', () => {
+  it('fromNbt (v2)', () => {
+    const schematic = SpongeSchematic.fromNbt(schematicV2())
+    expect(schematic.getSize()).to.deep.equal([2, 2, 1])
+    expect(schematic.getOffset()).to.deep.equal([-1, 0, 3])
+    expect(schematic.getDataVersion()).to.equal(2230)
+    expect(schematic.getBlock([0, 0, 0])?.state.getName()).to.equal('minecraft:stone')
+    expect(schematic.getBlock([1, 0, 0])?.state.getName()).to.equal('minecraft:air')
+    const chest = schematic.getBlock([0, 1, 0])
+    expect(chest?.state.getProperties()).to.deep.equal({ facing: 'north', type: 'single' })
+    expect(chest?.nbt).to.deep.equal({
+      id: { type: 'string', value: 'minecraft:chest' },
+      Lock: { type: 'string', value: 'key' },
+    })
+    expect(schematic.getBlock([1, 1, 0])?.state.getName()).to.equal('minecraft:stone')
+  })
+
+  it('fromNbt (multi-byte varints)', () => {
+    const nbt = schematicV2()
+    const palette: { [key: string]: any } = {}
+    for (let i = 0; i < 200; i += 1) {
+      palette[`minecraft:block_${i}`] = { type: 'int', value: i }
+    }
+    nbt.value['Palette'] = { type: 'compound', value: palette }
+    nbt.value['BlockData'] = { type: 'byteArray', value: [-57, 1, 5, -128, 1, 127] }
+    const schematic = SpongeSchematic.fromNbt(nbt)
+    expect(schematic.getBlocks().map(b => b.state.getName())).to.deep.equal([
+      'minecraft:block_199', 'minecraft:block_5', 'minecraft:block_128', 'minecraft:block_127',
+    ])
+  })
+
+  it('fromNbt (invalid)', () => {
+    const nbt = schematicV2()
+    nbt.value['Version'] = { type: 'int', value: 4 }
+    expect(() => SpongeSchematic.fromNbt(nbt)).to.throw('Unsupported Sponge schematic version 4')
+    const truncated = schematicV2()
+    truncated.value['BlockData'] = { type: 'byteArray', value: [1, 0] }
+    expect(() => SpongeSchematic.fromNbt(truncated)).to.throw('Expected 4 blocks in block data, but found 2')
+  })
+
+  it('toNbt (v2)', () => {
+    const schematic = SpongeSchematic.fromNbt(schematicV2())
+    const nbt = schematic.toNbt(2)
+    expect(nbt.name).to.equal('Schematic')
+    expect(nbt.value['BlockData']).to.deep.equal({ type: 'byteArray', value: [0, 1, 2, 0] })
+    expect(Object.keys((nbt.value['Palette'] as any).value)).to.deep.equal([
+      'minecraft:stone', 'minecraft:air', 'minecraft:chest[facing=north,type=single]',
+    ])
+    expect(nbt.value['BlockEntities']).to.deep.equal(schematicV2().value['BlockEntities'])
+  })
+
+  it('fromNbt (invalid entity position)', () => {
+    const nbt = schematicV2()
+    nbt.value['Entities'] = { type: 'list', value: { type: 'compound', value: [{
+      Pos: { type: 'list', value: { type: 'int', value: [1, 0, 0] } },
+    }] } }
+    expect(() => SpongeSchematic.fromNbt(nbt)).to.throw('Expected Pos to be a list of doubles, but found ints')
+  })
+
+  it('toNbt (round trip)', () => {
+    const structure = new Structure([3, 2, 2])
+      .addBlock([0, 0, 0], 'minecraft:stone')
+      .addBlock([2, 1, 1], 'minecraft:oak_stairs', { facing: 'east', half: 'top' })
+      .addBlock([1, 0, 1], 'minecraft:sign', {}, { Text1: { type: 'string', value: '"hi"' } })
+    structure.getEntities().push({
+      pos: [0.5, 1, 0.5],
+      blockPos: [0, 1, 0],
+      nbt: { id: { type: 'string', value: 'minecraft:pig' }, Health: { type: 'float', value: 10 } },
+    })
+    const schematic = new SpongeSchematic(structure, [4, 5, 6], 2586)
+
+    for (const version of [1, 2, 3] as const) {
+      const loaded = SpongeSchematic.fromNbt(schematic.toNbt(version))
+      expect(loaded.getSize()).to.deep.equal([3, 2, 2])
+      expect(loaded.getOffset()).to.deep.equal([4, 5, 6])
+      expect(loaded.getDataVersion()).to.equal(version === 1 ? Structure.DATA_VERSION : 2586)
+      expect(loaded.getBlocks()).to.have.length(12)
+      expect(loaded.getBlock([2, 1, 1])?.state.getProperties()).to.deep.equal({ facing: 'east', half: 'top' })
+      expect(loaded.getBlock([1, 0, 1])?.nbt).to.deep.equal({
+        Text1: { type: 'string', value: '"hi"' },
+        id: { type: 'string', value: 'minecraft:sign' },
+      })
+      expect(loaded.getBlock([1, 1, 1])?.state.getName()).to.equal('minecraft:air')
+      expect(loaded.getStructure().getEntities()).to.have.length(version === 1 ? 0 : 1)
+      expect(loaded.toNbt(version)).to.deep.equal(schematic.toNbt(version))
+    }
+  })
+})
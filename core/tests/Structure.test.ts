@@ -1,7 +1,8 @@
 import "mocha";
 import { expect } from 'chai';
-import { NamedNbtTag } from "@webmc/nbt";
+import { NamedNbtTag, structureSchema, validateNbt } from "@webmc/nbt";
 import { Structure } from '../src/Structure';
+import { BlockPos, StructureChange, StructureProvider } from "../src/StructureProvider";
 import { BlockState } from "../src/BlockState";
 
 describe('Structure', () => {
@@ -85,4 +86,310 @@ describe('Structure', () => {
 
     expect(structureA).to.deep.equal(structureB)
   })
+
+  it('toNbt', () => {
+    const structure = new Structure([2, 1, 1])
+      .addBlock([0, 0, 0], 'minecraft:dirt')
+      .addBlock([0, 0, 0], 'minecraft:stone')
+      .addBlock([1, 0, 0], 'minecraft:chest', { facing: 'north' }, { id: { type: 'string', value: 'minecraft:chest' } })
+    expect(structure.toNbt()).to.deep.equal({ name: '', value: {
+      size: { type: 'list', value: { type: 'int', value: [2, 1, 1] } },
+      palette: { type: 'list', value: { type: 'compound', value: [
+        { Name: { type: 'string', value: 'minecraft:stone' } },
+        {
+          Name: { type: 'string', value: 'minecraft:chest' },
+          Properties: { type: 'compound', value: {
+            facing: { type: 'string', value: 'north' }
+          } }
+        }
+      ] } },
+      blocks: { type: 'list', value: { type: 'compound', value: [
+        {
+          pos: { type: 'list', value: { type: 'int', value: [0, 0, 0] } },
+          state: { type: 'int', value: 0 }
+        },
+        {
+          pos: { type: 'list', value: { type: 'int', value: [1, 0, 0] } },
+          state: { type: 'int', value: 1 },
+          nbt: { type: 'compound', value: {
+            id: { type: 'string', value: 'minecraft:chest' }
+          } }
+        }
+      ] } },
+      entities: { type: 'list', value: { type: 'compound', value: [] } },
+      DataVersion: { type: 'int', value: Structure.DATA_VERSION }
+    } })
+  })
+
+  it('fromNbt (toNbt)', () => {
+    const structure = new Structure([2, 2, 1])
+      .addBlock([0, 0, 0], 'minecraft:stone')
+      .addBlock([1, 1, 0], 'minecraft:jigsaw', { orientation: 'east_up' }, { name: { type: 'string', value: 'minecraft:empty' } })
+      .addBlock([0, 1, 0], 'minecraft:stone')
+    const nbt = structure.toNbt()
+    expect(validateNbt({ type: 'compound', value: nbt.value }, structureSchema)).to.deep.equal([])
+
+    const loaded = Structure.fromNbt(nbt)
+    expect(loaded.getSize()).to.deep.equal(structure.getSize())
+    expect(loaded.getBlocks()).to.deep.equal(structure.getBlocks())
+    expect(loaded.toNbt()).to.deep.equal(nbt)
+  })
+
+  it('fromNbt (toNbt, entities and DataVersion)', () => {
+    const nbt: NamedNbtTag = { name: '', value: {
+      size: { type: 'list', value: { type: 'int', value: [1, 1, 1] } },
+      palette: { type: 'list', value: { type: 'compound', value: [] } },
+      blocks: { type: 'list', value: { type: 'compound', value: [] } },
+      entities: { type: 'list', value: { type: 'compound', value: [{
+        pos: { type: 'list', value: { type: 'double', value: [0.5, 0, 0.5] } },
+        blockPos: { type: 'list', value: { type: 'int', value: [0, 0, 0] } },
+        nbt: { type: 'compound', value: { id: { type: 'string', value: 'minecraft:pig' } } }
+      }] } },
+      DataVersion: { type: 'int', value: 1343 }
+    } }
+    expect(Structure.fromNbt(nbt).toNbt()).to.deep.equal(nbt)
+  })
+
+  it('fromNbt (palettes)', () => {
+    const nbt: NamedNbtTag = { name: '', value: {
+      size: { type: 'list', value: { type: 'int', value: [1, 1, 2] } },
+      palettes: { type: 'list', value: { type: 'list', value: [
+        { type: 'compound', value: [
+          { Name: { type: 'string', value: 'minecraft:oak_planks' } },
+          { Name: { type: 'string', value: 'minecraft:chest' } }
+        ] },
+        { type: 'compound', value: [
+          { Name: { type: 'string', value: 'minecraft:spruce_planks' } },
+          { Name: { type: 'string', value: 'minecraft:chest' } }
+        ] }
+      ] } },
+      blocks: { type: 'list', value: { type: 'compound', value: [
+        {
+          pos: { type: 'list', value: { type: 'int', value: [0, 0, 0] } },
+          state: { type: 'int', value: 0 }
+        },
+        {
+          pos: { type: 'list', value: { type: 'int', value: [0, 0, 1] } },
+          state: { type: 'int', value: 1 }
+        }
+      ] } },
+      entities: { type: 'list', value: { type: 'compound', value: [] } },
+      DataVersion: { type: 'int', value: 2586 }
+    } }
+    const structure = Structure.fromNbt(nbt)
+    expect(structure.getPaletteCount()).to.equal(2)
+    expect(structure.getBlock([0, 0, 0])?.state.getName()).to.equal('minecraft:oak_planks')
+    structure.setActivePalette(1)
+    expect(structure.getActivePalette()).to.equal(1)
+    expect(structure.getBlock([0, 0, 0])?.state.getName()).to.equal('minecraft:spruce_planks')
+    expect(structure.getBlock([0, 0, 1])?.state.getName()).to.equal('minecraft:chest')
+    expect(() => structure.setActivePalette(2)).to.throw('Palette index 2 is out of range')
+    expect(structure.toNbt()).to.deep.equal(nbt)
+    expect(validateNbt({ type: 'compound', value: nbt.value }, structureSchema)).to.deep.equal([])
+
+    const changes: StructureChange[] = []
+    structure.onChange(change => changes.push(change))
+    structure.addBlock([0, 0, 1], 'minecraft:barrel')
+    structure.setActivePalette(0)
+    structure.setActivePalette(0)
+    expect(changes).to.deep.equal([{ type: 'block', pos: [0, 0, 1] }, { type: 'palette', palette: 0 }])
+    expect(structure.getBlock([0, 0, 1])?.state.getName()).to.equal('minecraft:barrel')
+  })
+
+  it('fromNbt (mismatched palettes)', () => {
+    const nbt: NamedNbtTag = { name: '', value: {
+      size: { type: 'list', value: { type: 'int', value: [1, 1, 1] } },
+      palettes: { type: 'list', value: { type: 'list', value: [
+        { type: 'compound', value: [{ Name: { type: 'string', value: 'minecraft:stone' } }] },
+        { type: 'compound', value: [] }
+      ] } },
+      blocks: { type: 'list', value: { type: 'compound', value: [] } }
+    } }
+    expect(() => Structure.fromNbt(nbt)).to.throw('Expected at least one palette, all with the same number of states')
+  })
+
+  it('rotate', () => {
+    const structure = new Structure([2, 1, 3], [], [], [{
+      pos: [0.5, 0, 0.5],
+      blockPos: [0, 0, 0],
+      nbt: { Rotation: { type: 'list', value: { type: 'float', value: [0, 10] } } }
+    }])
+      .addBlock([0, 0, 0], 'minecraft:furnace', { facing: 'north', lit: 'false' })
+      .addBlock([1, 0, 2], 'minecraft:stone')
+    const rotated = structure.rotate('CLOCKWISE_90')
+    expect(rotated.getSize()).to.deep.equal([3, 1, 2])
+    expect(rotated.getBlock([2, 0, 0])?.state).to.deep.equal(new BlockState('minecraft:furnace', { facing: 'east', lit: 'false' }))
+    expect(rotated.getBlock([0, 0, 1])?.state.getName()).to.equal('minecraft:stone')
+    expect(rotated.getBlocks()).to.have.length(2)
+    const [entity] = rotated.getEntities()
+    expect(entity.pos).to.deep.equal([2.5, 0, 0.5])
+    expect(entity.blockPos).to.deep.equal([2, 0, 0])
+    expect(entity.nbt.Rotation).to.deep.equal({ type: 'list', value: { type: 'float', value: [90, 10] } })
+
+    const back = rotated.rotate('COUNTERCLOCKWISE_90')
+    expect(back.getSize()).to.deep.equal([2, 1, 3])
+    expect(back.getBlocks()).to.deep.equal(structure.getBlocks())
+    expect(structure.rotate('CLOCKWISE_180').getBlock([1, 0, 2])?.state.getProperty('facing')).to.equal('south')
+  })
+
+  it('mirror', () => {
+    const structure = new Structure([2, 1, 3])
+      .addBlock([0, 0, 0], 'minecraft:oak_stairs', { facing: 'north', shape: 'inner_left' })
+    const mirrored = structure.mirror('LEFT_RIGHT')
+    expect(mirrored.getSize()).to.deep.equal([2, 1, 3])
+    expect(mirrored.getBlock([0, 0, 0])).to.be.null
+    expect(mirrored.getBlock([0, 0, 2])?.state.getProperties()).to.deep.equal({ facing: 'south', shape: 'inner_right' })
+    expect(structure.mirror('FRONT_BACK').getBlock([1, 0, 0])?.state.getProperty('shape')).to.equal('inner_right')
+    expect(mirrored.mirror('LEFT_RIGHT').toNbt()).to.deep.equal(structure.toNbt())
+  })
+
+  it('setBlock', () => {
+    const structure = new Structure([2, 1, 1])
+      .setBlock([0, 0, 0], new BlockState('minecraft:dirt'))
+      .setBlock([0, 0, 0], new BlockState('minecraft:stone'))
+      .setBlock([1, 0, 0], new BlockState('minecraft:stone'))
+    expect(structure.getBlocks().map(b => b.pos)).to.deep.equal([[0, 0, 0], [1, 0, 0]])
+    expect(structure.getBlock([0, 0, 0])?.state.getName()).to.equal('minecraft:stone')
+    expect(() => structure.setBlock([2, 0, 0], new BlockState('minecraft:stone'))).to.throw('Position 2, 0, 0 is outside')
+
+    structure.removeBlock([0, 0, 0])
+    expect(structure.getBlock([0, 0, 0])).to.be.null
+    expect(structure.getBlocks()).to.have.length(1)
+  })
+
+  it('fill', () => {
+    const structure = new Structure([3, 3, 3])
+      .fill({ min: [2, 2, 2], max: [-5, 0, 1] }, new BlockState('minecraft:stone'))
+    expect(structure.getBlocks()).to.have.length(18)
+    expect(structure.getBlock([0, 0, 1])?.state.getName()).to.equal('minecraft:stone')
+    expect(structure.getBlock([0, 0, 0])).to.be.null
+
+    structure.fill({ min: [0, 0, 1], max: [2, 2, 1] }, null)
+    expect(structure.getBlocks()).to.have.length(9)
+  })
+
+  it('replace', () => {
+    const chest = { id: { type: 'string', value: 'minecraft:chest' } } as const
+    const structure = new Structure([3, 1, 1])
+      .addBlock([0, 0, 0], 'minecraft:stone')
+      .addBlock([1, 0, 0], 'minecraft:chest', {}, chest)
+      .addBlock([2, 0, 0], 'minecraft:dirt')
+      .replace(new BlockState('minecraft:stone'), new BlockState('minecraft:granite'))
+    expect(structure.getBlocks().map(b => b.state.getName()))
+      .to.deep.equal(['minecraft:chest', 'minecraft:dirt', 'minecraft:granite'])
+
+    structure.replace(b => b.nbt !== undefined || b.pos[0] === 2, null)
+    expect(structure.getBlocks().map(b => b.state.getName())).to.deep.equal(['minecraft:granite'])
+  })
+
+  it('copy', () => {
+    const structure = new Structure([3, 2, 2], [], [], [
+      { pos: [2.5, 1, 1.5], blockPos: [2, 1, 1], nbt: {} },
+      { pos: [0.5, 0, 0.5], blockPos: [0, 0, 0], nbt: {} }
+    ])
+      .addBlock([1, 0, 0], 'minecraft:stone')
+      .addBlock([2, 1, 1], 'minecraft:dirt')
+    const copy = structure.copy({ min: [1, 0, 0], max: [4, 1, 1] })
+    expect(copy.getSize()).to.deep.equal([2, 2, 2])
+    expect(copy.getBlock([0, 0, 0])?.state.getName()).to.equal('minecraft:stone')
+    expect(copy.getBlock([1, 1, 1])?.state.getName()).to.equal('minecraft:dirt')
+    expect(copy.getEntities()).to.deep.equal([{ pos: [1.5, 1, 1.5], blockPos: [1, 1, 1], nbt: {} }])
+
+    copy.setBlock([0, 0, 0], new BlockState('minecraft:gold_block'))
+    expect(structure.getBlock([1, 0, 0])?.state.getName()).to.equal('minecraft:stone')
+  })
+
+  it('paste', () => {
+    const source = new Structure([2, 1, 1])
+      .addBlock([0, 0, 0], 'minecraft:air')
+      .addBlock([1, 0, 0], 'minecraft:gold_block')
+    const target = () => new Structure([3, 1, 1])
+      .addBlock([1, 0, 0], 'minecraft:stone')
+      .addBlock([2, 0, 0], 'minecraft:air')
+    const names = (s: Structure) => [0, 1, 2].map(x => s.getBlock([x, 0, 0])?.state.getName())
+
+    expect(names(target().paste(source, [1, 0, 0])))
+      .to.deep.equal([undefined, 'minecraft:air', 'minecraft:gold_block'])
+    expect(names(target().paste(source, [1, 0, 0], 'masked')))
+      .to.deep.equal([undefined, 'minecraft:stone', 'minecraft:gold_block'])
+    expect(names(target().paste(source, [0, 0, 0], 'keep')))
+      .to.deep.equal(['minecraft:air', 'minecraft:stone', 'minecraft:air'])
+    expect(names(target().paste(source, [2, 0, 0])))
+      .to.deep.equal([undefined, 'minecraft:stone', 'minecraft:air'])
+  })
+
+  it('paste (minimal provider)', () => {
+    const block = { pos: [0, 0, 0] as BlockPos, state: new BlockState('minecraft:stone'), nbt: undefined }
+    const provider: StructureProvider = {
+      getSize: () => [1, 1, 1],
+      getBlocks: () => [block],
+      getBlock: () => block,
+    }
+    const structure = new Structure([2, 1, 1]).paste(provider, [1, 0, 0])
+    expect(structure.getBlock([1, 0, 0])?.state.getName()).to.equal('minecraft:stone')
+    expect(structure.getEntities()).to.be.empty
+  })
+
+  it('resize', () => {
+    const structure = new Structure([2, 2, 2], [], [], [{ pos: [1.5, 0, 0.5], blockPos: [1, 0, 0], nbt: {} }])
+      .addBlock([0, 0, 0], 'minecraft:stone')
+      .addBlock([1, 1, 1], 'minecraft:dirt')
+      .resize([3, 2, 2], [1, 0, 0])
+    expect(structure.getSize()).to.deep.equal([3, 2, 2])
+    expect(structure.getBlock([1, 0, 0])?.state.getName()).to.equal('minecraft:stone')
+    expect(structure.getBlock([2, 1, 1])?.state.getName()).to.equal('minecraft:dirt')
+    expect(structure.getEntities()[0].blockPos).to.deep.equal([2, 0, 0])
+
+    structure.resize([2, 2, 2])
+    expect(structure.getBlocks().map(b => b.pos)).to.deep.equal([[1, 0, 0]])
+    expect(structure.getEntities()).to.deep.equal([])
+  })
+
+  it('trimToContents', () => {
+    const structure = new Structure([4, 4, 4])
+      .fill({ min: [0, 0, 0], max: [3, 3, 3] }, new BlockState('minecraft:air'))
+      .setBlock([1, 2, 1], new BlockState('minecraft:stone'))
+      .setBlock([2, 2, 3], new BlockState('minecraft:dirt'))
+      .trimToContents()
+    expect(structure.getSize()).to.deep.equal([2, 1, 3])
+    expect(structure.getBlock([0, 0, 0])?.state.getName()).to.equal('minecraft:stone')
+    expect(structure.getBlock([1, 0, 2])?.state.getName()).to.equal('minecraft:dirt')
+    expect(structure.getBlocks()).to.have.length(6)
+
+    expect(new Structure([2, 2, 2]).trimToContents().getSize()).to.deep.equal([0, 0, 0])
+  })
+
+  it('onChange', () => {
+    const structure = new Structure([2, 2, 2])
+    const changes: StructureChange[] = []
+    const remove = structure.onChange(change => changes.push(change))
+    structure.setBlock([0, 0, 0], new BlockState('minecraft:stone'))
+    structure.fill({ min: [0, 1, 0], max: [1, 1, 0] }, new BlockState('minecraft:dirt'))
+    structure.resize([3, 2, 2])
+    expect(changes).to.deep.equal([
+      { type: 'block', pos: [0, 0, 0] },
+      { type: 'bulk', positions: [[0, 1, 0], [1, 1, 0]] },
+      { type: 'size', previousSize: [2, 2, 2], size: [3, 2, 2] },
+    ])
+
+    remove()
+    structure.setBlock([0, 0, 0], null)
+    expect(changes).to.have.length(3)
+  })
+
+  it('batch', () => {
+    const structure = new Structure([2, 2, 2])
+    const changes: StructureChange[] = []
+    structure.onChange(change => changes.push(change))
+    structure.batch(s => s
+      .setBlock([0, 0, 0], new BlockState('minecraft:stone'))
+      .setBlock([1, 0, 0], new BlockState('minecraft:stone')))
+    expect(changes).to.deep.equal([{ type: 'bulk', positions: [[0, 0, 0], [1, 0, 0]] }])
+
+    structure.batch(s => s
+      .setBlock([0, 0, 0], null)
+      .resize([1, 2, 2]))
+    expect(changes[1]).to.deep.equal({ type: 'size', previousSize: [2, 2, 2], size: [1, 2, 2] })
+    expect(changes).to.have.length(2)
+  })
 })
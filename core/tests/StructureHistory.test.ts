@@ -0,0 +1,155 @@
+import "mocha";
+import { expect } from 'chai';
+import { Nbt } from "@webmc/nbt";
+import { Structure } from '../src/Structure';
+import { StructureHistory } from '../src/StructureHistory';
+import { BlockState } from "../src/BlockState";
+
+const stone = new BlockState('minecraft:stone')
+const dirt = new BlockState('minecraft:dirt')
+
+function names(structure: Structure) {
+  return structure.getBlocks().map(b => `${b.pos.join(',')} ${b.state.getName()}`).sort()
+}
+
+describe('StructureHistory', () => {
+  it('transaction', () => {
+    const structure = new Structure([2, 2, 2])
+    const history = new StructureHistory(structure)
+    const change = history.transaction(s => {
+      s.addBlock([0, 0, 0], 'minecraft:stone')
+      s.addBlock([1, 0, 0], 'minecraft:stone')
+      s.setBlock([0, 0, 0], dirt)
+    })
+    expect(change?.positions).to.have.deep.members([[0, 0, 0], [1, 0, 0]])
+    expect(change?.resized).to.be.false
+    expect(history.canUndo()).to.be.true
+
+    history.undo()
+    expect(structure.getBlocks()).to.be.empty
+    expect(history.canUndo()).to.be.false
+    expect(history.canRedo()).to.be.true
+
+    history.redo()
+    expect(names(structure)).to.deep.equal(['0,0,0 minecraft:dirt', '1,0,0 minecraft:stone'])
+  })
+
+  it('nested transaction', () => {
+    const structure = new Structure([2, 1, 1])
+    const history = new StructureHistory(structure)
+    history.transaction(s => {
+      s.setBlock([0, 0, 0], stone)
+      history.transaction(inner => inner.setBlock([1, 0, 0], stone))
+    })
+    history.undo()
+    expect(structure.getBlocks()).to.be.empty
+    expect(history.canUndo()).to.be.false
+  })
+
+  it('transaction rolls back when the edit throws', () => {
+    const structure = new Structure([2, 2, 1]).addBlock([0, 0, 0], 'minecraft:stone')
+    const history = new StructureHistory(structure)
+    history.transaction(s => s.setBlock([1, 0, 0], stone))
+    expect(() => history.transaction(s => {
+      s.setBlock([0, 0, 0], dirt)
+      s.resize([2, 1, 1])
+      throw new Error('Edit failed')
+    })).to.throw('Edit failed')
+    expect(structure.getSize()).to.deep.equal([2, 2, 1])
+    expect(names(structure)).to.deep.equal(['0,0,0 minecraft:stone', '1,0,0 minecraft:stone'])
+
+    history.undo()
+    expect(names(structure)).to.deep.equal(['0,0,0 minecraft:stone'])
+    expect(history.canUndo()).to.be.false
+  })
+
+  it('transaction notifies structure listeners once', () => {
+    const structure = new Structure([2, 1, 1])
+    const history = new StructureHistory(structure)
+    let count = 0
+    structure.onChange(() => count += 1)
+    history.transaction(s => s.setBlock([0, 0, 0], stone).setBlock([1, 0, 0], stone))
+    history.undo()
+    expect(count).to.equal(2)
+  })
+
+  it('undo restores block entities', () => {
+    const nbt = { Items: Nbt.list('compound', []) }
+    const structure = new Structure([1, 1, 1]).addBlock([0, 0, 0], 'minecraft:chest', {}, nbt)
+    const history = new StructureHistory(structure)
+    history.transaction(s => s.setBlock([0, 0, 0], null))
+    expect(structure.getBlock([0, 0, 0])).to.be.null
+    history.undo()
+    expect(structure.getBlock([0, 0, 0])?.nbt).to.deep.equal(nbt)
+  })
+
+  it('redo is cleared by a new transaction', () => {
+    const structure = new Structure([1, 1, 1])
+    const history = new StructureHistory(structure)
+    history.transaction(s => s.setBlock([0, 0, 0], stone))
+    history.undo()
+    history.transaction(s => s.setBlock([0, 0, 0], dirt))
+    expect(history.canRedo()).to.be.false
+    expect(history.redo()).to.be.undefined
+  })
+
+  it('changes outside a transaction clear the history', () => {
+    const structure = new Structure([1, 1, 1])
+    const history = new StructureHistory(structure)
+    history.transaction(s => s.setBlock([0, 0, 0], stone))
+    structure.setBlock([0, 0, 0], dirt)
+    expect(history.canUndo()).to.be.false
+  })
+
+  it('undo resize', () => {
+    const entity = { pos: [1.5, 0, 0.5] as [number, number, number], blockPos: [1, 0, 0] as [number, number, number], nbt: {} }
+    const structure = new Structure([2, 1, 1], [], [], [entity])
+      .addBlock([0, 0, 0], 'minecraft:stone')
+      .addBlock([1, 0, 0], 'minecraft:dirt')
+    const history = new StructureHistory(structure)
+    const change = history.transaction(s => s.resize([2, 1, 1], [1, 0, 0]))
+    expect(change?.resized).to.be.true
+    expect(change?.positions).to.deep.equal([[1, 0, 0]])
+    expect(names(structure)).to.deep.equal(['1,0,0 minecraft:stone'])
+    expect(structure.getEntities()).to.be.empty
+
+    history.undo()
+    expect(names(structure)).to.deep.equal(['0,0,0 minecraft:stone', '1,0,0 minecraft:dirt'])
+    expect(structure.getEntities()).to.deep.equal([entity])
+
+    history.redo()
+    expect(names(structure)).to.deep.equal(['1,0,0 minecraft:stone'])
+    expect(structure.getEntities()).to.be.empty
+  })
+
+  it('maxSteps', () => {
+    const structure = new Structure([3, 1, 1])
+    const history = new StructureHistory(structure, { maxSteps: 2 })
+    ;[0, 1, 2].forEach(x => history.transaction(s => s.setBlock([x, 0, 0], stone)))
+    history.undo()
+    history.undo()
+    expect(history.canUndo()).to.be.false
+    expect(names(structure)).to.deep.equal(['0,0,0 minecraft:stone'])
+  })
+
+  it('maxChanges', () => {
+    const structure = new Structure([4, 1, 1])
+    const history = new StructureHistory(structure, { maxChanges: 3 })
+    history.transaction(s => s.fill({ min: [0, 0, 0], max: [1, 0, 0] }, stone))
+    history.transaction(s => s.fill({ min: [2, 0, 0], max: [3, 0, 0] }, stone))
+    history.undo()
+    expect(history.canUndo()).to.be.false
+  })
+
+  it('onChange', () => {
+    const structure = new Structure([1, 1, 1])
+    const history = new StructureHistory(structure)
+    const changes: number[] = []
+    const remove = history.onChange(change => changes.push(change.positions.length))
+    history.transaction(s => s.setBlock([0, 0, 0], stone))
+    history.undo()
+    remove()
+    history.redo()
+    expect(changes).to.deep.equal([1, 1])
+  })
+})
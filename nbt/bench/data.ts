@@ -0,0 +1,44 @@
+import { NamedNbtTag, NbtTag } from '../src/Nbt'
+
+/** Deterministic pseudo-random 32-bit integers, so runs are comparable */
+function random(seed: number) {
+  return () => {
+    seed = (seed + 0x6D2B79F5) | 0
+    let t = Math.imul(seed ^ (seed >>> 15), seed | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return t ^ (t >>> 14)
+  }
+}
+
+/** Builds a chunk shaped like one from a 1.16 region file, with the same data for the same seed */
+export function regionChunk(seed = 1): NamedNbtTag {
+  const next = random(seed)
+  const longs = (length: number) => [...Array(length)].map((): [number, number] => [next(), next()])
+  const bytes = (length: number) => [...Array(length)].map(() => next() >> 24)
+  const sections: { [key: string]: NbtTag }[] = []
+  for (let y = 0; y < 16; y += 1) {
+    sections.push({
+      Y: { type: 'byte', value: y },
+      BlockStates: { type: 'longArray', value: longs(256) },
+      BlockLight: { type: 'byteArray', value: bytes(2048) },
+      SkyLight: { type: 'byteArray', value: bytes(2048) },
+      Palette: { type: 'list', value: { type: 'compound', value: [
+        { Name: { type: 'string', value: 'minecraft:air' } },
+        { Name: { type: 'string', value: 'minecraft:stone' } }
+      ] } }
+    })
+  }
+  return { name: '', value: {
+    DataVersion: { type: 'int', value: 2586 },
+    Level: { type: 'compound', value: {
+      xPos: { type: 'int', value: 3 },
+      zPos: { type: 'int', value: -7 },
+      Biomes: { type: 'intArray', value: [...Array(1024)].map((_, i) => i % 64) },
+      Heightmaps: { type: 'compound', value: {
+        MOTION_BLOCKING: { type: 'longArray', value: longs(37) },
+        WORLD_SURFACE: { type: 'longArray', value: longs(37) }
+      } },
+      Sections: { type: 'list', value: { type: 'compound', value: sections } }
+    } }
+  } }
+}
@@ -0,0 +1,20 @@
+import { readUncompressed, writeUncompressed } from '../src/Nbt'
+import { regionChunk } from './data'
+
+function measure(run: () => void, iterations: number) {
+  run()
+  const start = performance.now()
+  for (let i = 0; i < iterations; i += 1) {
+    run()
+  }
+  return (performance.now() - start) / iterations
+}
+
+const raw = writeUncompressed(regionChunk())
+const iterations = 200
+const plain = measure(() => readUncompressed(raw), iterations)
+const typed = measure(() => readUncompressed(raw, false, { typedArrays: true }), iterations)
+
+console.log(`Reading a region chunk of ${raw.length} bytes, average of ${iterations} runs`)
+console.log(`  plain arrays: ${plain.toFixed(3)} ms`)
+console.log(`  typed arrays: ${typed.toFixed(3)} ms (${(plain / typed).toFixed(1)}x)`)
@@ -0,0 +1,64 @@
+import { NamedNbtTag, NbtReadOptions, readUncompressed, tagTypes, writeUncompressed } from './Nbt'
+import { NbtReader } from './Reader'
+import { NbtWriter } from './Writer'
+
+export type BedrockNetworkOptions = {
+  /** Whether the root compound is written without a name */
+  unnamed?: boolean
+}
+
+export function readBedrock(array: Uint8Array, options?: NbtReadOptions): NamedNbtTag {
+  return readUncompressed(array, true, { stringEncoding: 'utf8', ...options })
+}
+
+export function writeBedrock(value: NamedNbtTag) {
+  return writeUncompressed(value, true, { stringEncoding: 'utf8' })
+}
+
+export function readBedrockNetwork(array: Uint8Array, options: NbtReadOptions & BedrockNetworkOptions = {}): NamedNbtTag {
+  const reader = new NbtReader(array, true, { stringEncoding: 'utf8', ...options, varint: true })
+  const type = reader.byte()
+  if (type !== tagTypes.compound) {
+    throw reader.error('Top tag should be a compound', 0)
+  }
+  return {
+    name: options.unnamed ? '' : reader.string(),
+    value: reader.compound()
+  }
+}
+
+export function writeBedrockNetwork(value: NamedNbtTag, options: BedrockNetworkOptions = {}) {
+  const writer = new NbtWriter(true, { varint: true, stringEncoding: 'utf8' })
+  writer.byte(tagTypes.compound)
+  if (!options.unnamed) {
+    writer.string(value.name)
+  }
+  writer.compound(value.value)
+  return writer.getData()
+}
+
+export function readBedrockLevel(array: Uint8Array, options?: NbtReadOptions) {
+  if (array.length < 8) {
+    throw new Error('Missing level.dat header')
+  }
+  const dataView = new DataView(array.buffer, array.byteOffset)
+  const version = dataView.getInt32(0, true)
+  const length = dataView.getInt32(4, true)
+  if (length < 0 || length > array.length - 8) {
+    throw new Error(`Expected ${length} bytes of level data, but found ${array.length - 8}`)
+  }
+  return {
+    version,
+    result: readBedrock(array.subarray(8, 8 + length), options)
+  }
+}
+
+export function writeBedrockLevel(value: NamedNbtTag, version: number) {
+  const data = writeBedrock(value)
+  const array = new Uint8Array(8 + data.length)
+  const dataView = new DataView(array.buffer)
+  dataView.setInt32(0, version, true)
+  dataView.setInt32(4, data.length, true)
+  array.set(data, 8)
+  return array
+}
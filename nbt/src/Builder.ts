@@ -0,0 +1,156 @@
+import { NbtTag, NbtValues } from './Nbt'
+import { getListTag, getTag, longToBigInt, longToPair } from './TagUtils'
+
+export type NbtTagOf<T extends keyof NbtValues> = Extract<NbtTag, { type: T }>
+
+export type NbtListOf<T extends keyof NbtValues> = {
+  type: 'list'
+  value: { type: T, value: NbtValues[T][] }
+}
+
+type LongInput = number | bigint | string | [number, number]
+
+const ranges = {
+  byte: [-128, 127],
+  short: [-32768, 32767],
+  int: [-2147483648, 2147483647],
+} as const
+
+const minLong = -(BigInt(1) << BigInt(63))
+const maxLong = (BigInt(1) << BigInt(63)) - BigInt(1)
+
+function checkInteger(type: keyof typeof ranges, value: number) {
+  const [min, max] = ranges[type]
+  if (!Number.isInteger(value) || value < min || value > max) {
+    throw new RangeError(`Expected ${type === 'int' ? 'an' : 'a'} ${type} between ${min} and ${max}, but found ${value}`)
+  }
+  return value
+}
+
+function checkLong(value: LongInput): NbtValues['long'] {
+  if (Array.isArray(value)) {
+    checkInteger('int', value[0])
+    checkInteger('int', value[1])
+    return [value[0], value[1]]
+  }
+  if (typeof value === 'number' && !Number.isSafeInteger(value)) {
+    throw new RangeError(`Expected a long as a safe integer, bigint or string, but found ${value}`)
+  }
+  let big: bigint
+  try {
+    big = BigInt(value)
+  } catch (e) {
+    throw new RangeError(`Expected a long, but found ${value}`)
+  }
+  if (big < minLong || big > maxLong) {
+    throw new RangeError(`Expected a long between ${minLong} and ${maxLong}, but found ${value}`)
+  }
+  return typeof value === 'bigint' ? big : longToPair(big)
+}
+
+function checkElements<T extends keyof NbtValues>(type: T, values: NbtValues[T][]) {
+  switch (type) {
+    case 'byte':
+    case 'short':
+    case 'int':
+      (values as number[]).forEach(v => checkInteger(type as keyof typeof ranges, v))
+      break
+    case 'long':
+      (values as NbtValues['long'][]).forEach(v => checkLong(v))
+      break
+  }
+}
+
+export const Nbt = {
+  byte(value: number | boolean): NbtTagOf<'byte'> {
+    return { type: 'byte', value: checkInteger('byte', typeof value === 'boolean' ? +value : value) }
+  },
+
+  short(value: number): NbtTagOf<'short'> {
+    return { type: 'short', value: checkInteger('short', value) }
+  },
+
+  int(value: number): NbtTagOf<'int'> {
+    return { type: 'int', value: checkInteger('int', value) }
+  },
+
+  long(value: LongInput): NbtTagOf<'long'> {
+    return { type: 'long', value: checkLong(value) }
+  },
+
+  float(value: number): NbtTagOf<'float'> {
+    return { type: 'float', value: Math.fround(value) }
+  },
+
+  double(value: number): NbtTagOf<'double'> {
+    return { type: 'double', value }
+  },
+
+  string(value: string): NbtTagOf<'string'> {
+    return { type: 'string', value }
+  },
+
+  byteArray(values: number[] | Int8Array): NbtTagOf<'byteArray'> {
+    if (values instanceof Int8Array) {
+      return { type: 'byteArray', value: values }
+    }
+    checkElements('byte', values)
+    return { type: 'byteArray', value: values }
+  },
+
+  intArray(values: number[] | Int32Array): NbtTagOf<'intArray'> {
+    if (values instanceof Int32Array) {
+      return { type: 'intArray', value: values }
+    }
+    checkElements('int', values)
+    return { type: 'intArray', value: values }
+  },
+
+  longArray(values: LongInput[] | BigInt64Array): NbtTagOf<'longArray'> {
+    if (values instanceof BigInt64Array) {
+      return { type: 'longArray', value: values }
+    }
+    return { type: 'longArray', value: values.map(v => longToPair(checkLong(v))) }
+  },
+
+  list<T extends keyof NbtValues>(type: T, values: NbtValues[T][]): NbtListOf<T> {
+    checkElements(type, values)
+    return { type: 'list', value: { type, value: values } }
+  },
+
+  /** Creates a list from tags, which must all be of the same type */
+  listOf<T extends keyof NbtValues>(tags: NbtTagOf<T>[]): NbtListOf<T> {
+    const type = (tags[0]?.type ?? 'end') as T
+    const other = tags.find(t => t.type !== type)
+    if (other) {
+      throw new Error(`Expected a list of ${type}s, but found ${other.type}`)
+    }
+    return Nbt.list(type, tags.map(t => t.value) as NbtValues[T][])
+  },
+
+  /** Creates a compound, leaving out undefined entries */
+  compound(values: { [key: string]: NbtTag | undefined }): NbtTagOf<'compound'> {
+    const value: NbtValues['compound'] = {}
+    Object.keys(values).forEach(key => {
+      const tag = values[key]
+      if (tag !== undefined) {
+        value[key] = tag
+      }
+    })
+    return { type: 'compound', value }
+  },
+
+  getByte: (compound: NbtValues['compound'], name: string) => getTag(compound, name, 'byte'),
+  getShort: (compound: NbtValues['compound'], name: string) => getTag(compound, name, 'short'),
+  getInt: (compound: NbtValues['compound'], name: string) => getTag(compound, name, 'int'),
+  getLong: (compound: NbtValues['compound'], name: string) => longToBigInt(getTag(compound, name, 'long')),
+  getFloat: (compound: NbtValues['compound'], name: string) => getTag(compound, name, 'float'),
+  getDouble: (compound: NbtValues['compound'], name: string) => getTag(compound, name, 'double'),
+  getString: (compound: NbtValues['compound'], name: string) => getTag(compound, name, 'string'),
+  getByteArray: (compound: NbtValues['compound'], name: string) => getTag(compound, name, 'byteArray'),
+  getIntArray: (compound: NbtValues['compound'], name: string) => getTag(compound, name, 'intArray'),
+  getLongArray: (compound: NbtValues['compound'], name: string) => getTag(compound, name, 'longArray'),
+  getCompound: (compound: NbtValues['compound'], name: string) => getTag(compound, name, 'compound'),
+  getList: <T extends keyof NbtValues>(compound: NbtValues['compound'], name: string, type: T, length?: number) =>
+    getListTag(compound, name, type, length),
+}
@@ -0,0 +1,29 @@
+import pako from 'pako'
+import { compressLz4, decompressLz4 } from './Lz4'
+
+export const compressionTypes = {
+  'gzip': 1,
+  'zlib': 2,
+  'none': 3,
+  'lz4': 4
+} as const
+
+export function compressChunk(compression: number, data: Uint8Array) {
+  switch (compression) {
+    case compressionTypes.gzip: return pako.gzip(data)
+    case compressionTypes.zlib: return pako.deflate(data)
+    case compressionTypes.none: return data
+    case compressionTypes.lz4: return compressLz4(data)
+    default: throw new Error(`Invalid compression mode ${compression}`)
+  }
+}
+
+export function decompressChunk(compression: number, data: Uint8Array) {
+  switch (compression) {
+    case compressionTypes.gzip: return pako.inflate(data, { windowBits: 31 })
+    case compressionTypes.zlib: return pako.inflate(data, { windowBits: 15 })
+    case compressionTypes.none: return data
+    case compressionTypes.lz4: return decompressLz4(data)
+    default: throw new Error(`Invalid compression mode ${compression}`)
+  }
+}
@@ -0,0 +1,276 @@
+import { NamedNbtTag, NbtTag, NbtValues, tagTypes } from './Nbt'
+import { longArrayToBigInt, longToBigInt, longToPair } from './TagUtils'
+
+export const NBT_JSON_VERSION = 1
+
+export interface NbtJsonValues {
+  end: null
+  byte: number
+  short: number
+  int: number
+  long: string
+  float: number | string
+  double: number | string
+  string: string
+  byteArray: number[]
+  intArray: number[]
+  longArray: string[]
+  list: {
+    [Type in keyof NbtJsonValues]: {
+      type: Type,
+      value: NbtJsonValues[Type][]
+    }
+  }[keyof NbtJsonValues]
+  compound: {
+    [key: string]: NbtJsonTag
+  }
+}
+
+export type NbtJsonTag = {
+  [Type in keyof NbtJsonValues]: {
+    type: Type
+    value: NbtJsonValues[Type]
+  }
+}[keyof NbtJsonValues]
+
+export type NbtJson = {
+  version: number
+  name: string
+  value: NbtJsonValues['compound']
+}
+
+export type NbtJsonReadOptions = {
+  /** Convert long and longArray tags to bigint and BigInt64Array instead of [high, low] pairs */
+  bigint?: boolean
+  /** Convert byteArray, intArray and longArray tags to Int8Array, Int32Array and BigInt64Array */
+  typedArrays?: boolean
+}
+
+export type PlainJson = null | boolean | number | string | PlainJson[] | { [key: string]: PlainJson }
+
+export type PlainJsonSchema = keyof NbtValues | PlainJsonSchema[] | { [key: string]: PlainJsonSchema }
+
+export function nbtToJson(tag: NamedNbtTag): NbtJson {
+  return {
+    version: NBT_JSON_VERSION,
+    name: tag.name,
+    value: tagToJson({ type: 'compound', value: tag.value }).value as NbtJsonValues['compound']
+  }
+}
+
+export function nbtFromJson(json: NbtJson, options: NbtJsonReadOptions = {}): NamedNbtTag {
+  if (json.version !== NBT_JSON_VERSION) {
+    throw new Error(`Unsupported NBT JSON version ${json.version}`)
+  }
+  return {
+    name: json.name,
+    value: tagFromJson({ type: 'compound', value: json.value }, options).value as NbtValues['compound']
+  }
+}
+
+export function tagToJson(tag: NbtTag): NbtJsonTag {
+  switch (tag.type) {
+    case 'compound': {
+      const value: NbtJsonValues['compound'] = {}
+      Object.keys(tag.value).forEach(key => {
+        value[key] = tagToJson(tag.value[key])
+      })
+      return { type: 'compound', value }
+    }
+    case 'list': {
+      const type = tag.value.type
+      const value = (tag.value.value as any[]).map(v => tagToJson({ type, value: v } as NbtTag).value)
+      return { type: 'list', value: { type, value } as NbtJsonValues['list'] }
+    }
+    case 'long':
+      return { type: 'long', value: longToBigInt(tag.value).toString() }
+    case 'longArray':
+      return { type: 'longArray', value: Array.from(longArrayToBigInt(tag.value), v => v.toString()) }
+    case 'byteArray':
+    case 'intArray':
+      return { type: tag.type, value: Array.from(tag.value) }
+    case 'float':
+    case 'double':
+      return { type: tag.type, value: isFinite(tag.value) ? tag.value : tag.value.toString() }
+    default:
+      return tag
+  }
+}
+
+export function tagFromJson(json: NbtJsonTag, options: NbtJsonReadOptions = {}): NbtTag {
+  if (!(json.type in tagTypes)) {
+    throw new Error(`Invalid tag type ${json.type}`)
+  }
+  switch (json.type) {
+    case 'compound': {
+      const value: NbtValues['compound'] = {}
+      Object.keys(json.value).forEach(key => {
+        value[key] = tagFromJson(json.value[key], options)
+      })
+      return { type: 'compound', value }
+    }
+    case 'list': {
+      const type = json.value.type
+      const value = (json.value.value as any[]).map(v => tagFromJson({ type, value: v } as NbtJsonTag, options).value)
+      return { type: 'list', value: { type, value } as NbtValues['list'] }
+    }
+    case 'long': {
+      const value = BigInt.asIntN(64, BigInt(json.value))
+      return { type: 'long', value: options.bigint ? value : longToPair(value) }
+    }
+    case 'longArray': {
+      const value = BigInt64Array.from(json.value, v => BigInt(v))
+      return { type: 'longArray', value: options.bigint || options.typedArrays ? value : Array.from(value, longToPair) }
+    }
+    case 'byteArray':
+      return { type: 'byteArray', value: options.typedArrays ? Int8Array.from(json.value) : [...json.value] }
+    case 'intArray':
+      return { type: 'intArray', value: options.typedArrays ? Int32Array.from(json.value) : [...json.value] }
+    case 'float':
+    case 'double':
+      return { type: json.type, value: Number(json.value) }
+    default:
+      return json
+  }
+}
+
+export function nbtToPlainJson(tag: NamedNbtTag): { [key: string]: PlainJson } {
+  return tagToPlainJson({ type: 'compound', value: tag.value }) as { [key: string]: PlainJson }
+}
+
+export function tagToPlainJson(tag: NbtTag): PlainJson {
+  switch (tag.type) {
+    case 'compound': {
+      const value: { [key: string]: PlainJson } = {}
+      Object.keys(tag.value).forEach(key => {
+        value[key] = tagToPlainJson(tag.value[key])
+      })
+      return value
+    }
+    case 'list': {
+      const type = tag.value.type
+      return (tag.value.value as any[]).map(v => tagToPlainJson({ type, value: v } as NbtTag))
+    }
+    case 'long':
+      return plainLong(longToBigInt(tag.value))
+    case 'longArray':
+      return Array.from(longArrayToBigInt(tag.value), plainLong)
+    case 'byteArray':
+    case 'intArray':
+      return Array.from(tag.value)
+    case 'float':
+    case 'double':
+      return isFinite(tag.value) ? tag.value : tag.value.toString()
+    default:
+      return tag.value
+  }
+}
+
+function plainLong(value: bigint) {
+  const number = Number(value)
+  return Number.isSafeInteger(number) ? number : value.toString()
+}
+
+export function nbtFromPlainJson(json: { [key: string]: PlainJson }, schema?: { [key: string]: PlainJsonSchema }, name = ''): NamedNbtTag {
+  const tag = tagFromPlainJson(json, schema ?? {})
+  if (tag.type !== 'compound') {
+    throw new Error(`Expected root to be of type compound, but found ${tag.type}`)
+  }
+  return { name, value: tag.value }
+}
+
+export function tagFromPlainJson(json: PlainJson, schema?: PlainJsonSchema, path = ''): NbtTag {
+  const type = schema === undefined ? inferType(json, path) : schemaType(schema)
+  const fail = (expected: string): never => {
+    throw new Error(`Expected ${path || 'root'} to be ${expected}, but found ${describeJson(json)}`)
+  }
+
+  switch (type) {
+    case 'compound': {
+      if (typeof json !== 'object' || json === null || Array.isArray(json)) return fail('an object')
+      const fields = typeof schema === 'object' && !Array.isArray(schema) ? schema : {}
+      const value: NbtValues['compound'] = {}
+      Object.keys(json).forEach(key => {
+        value[key] = tagFromPlainJson(json[key], fields[key], path ? `${path}.${key}` : key)
+      })
+      return { type: 'compound', value }
+    }
+    case 'list': {
+      if (!Array.isArray(json)) return fail('an array')
+      const elementSchema = Array.isArray(schema) ? schema[0] : undefined
+      const elements = json.map((v, i) => tagFromPlainJson(v, elementSchema, `${path}[${i}]`))
+      const elementType = elementSchema === undefined ? widestType(elements, path) : schemaType(elementSchema)
+      const value = elements.map((e, i) => e.type === elementType ? e.value
+        : tagFromPlainJson(json[i], elementType, `${path}[${i}]`).value)
+      return { type: 'list', value: { type: elementType, value } as NbtValues['list'] }
+    }
+    case 'byteArray':
+    case 'intArray':
+      if (!Array.isArray(json) || json.some(v => typeof v !== 'number')) return fail('an array of numbers')
+      return { type, value: (json as number[]).slice() }
+    case 'longArray':
+      if (!Array.isArray(json) || json.some(v => typeof v !== 'number' && typeof v !== 'string')) return fail('an array of numbers')
+      return { type, value: (json as (number | string)[]).map(v => longToPair(BigInt.asIntN(64, BigInt(v)))) }
+    case 'long':
+      if (typeof json !== 'number' && typeof json !== 'string') return fail('a number')
+      return { type, value: longToPair(BigInt.asIntN(64, BigInt(json))) }
+    case 'byte':
+      if (typeof json === 'boolean') return { type, value: json ? 1 : 0 }
+      // fall through
+    case 'short':
+    case 'int':
+    case 'float':
+    case 'double':
+      if (typeof json !== 'number' && !(typeof json === 'string' && type !== 'byte' && /^(NaN|-?Infinity)$/.test(json))) {
+        return fail('a number')
+      }
+      return { type, value: Number(json) }
+    case 'string':
+      if (typeof json !== 'string') return fail('a string')
+      return { type, value: json }
+    default:
+      return fail(`of type ${type}`)
+  }
+}
+
+function schemaType(schema: PlainJsonSchema): keyof NbtValues {
+  if (typeof schema === 'string') return schema
+  return Array.isArray(schema) ? 'list' : 'compound'
+}
+
+function inferType(json: PlainJson, path: string): keyof NbtValues {
+  if (typeof json === 'boolean') return 'byte'
+  if (typeof json === 'string') return 'string'
+  if (typeof json === 'number') {
+    if (!Number.isInteger(json)) return 'double'
+    return json >= -2147483648 && json <= 2147483647 ? 'int' : 'long'
+  }
+  if (Array.isArray(json)) return 'list'
+  if (json === null) {
+    throw new Error(`Cannot convert null at ${path || 'root'} to NBT`)
+  }
+  return 'compound'
+}
+
+const numericTypes: (keyof NbtValues)[] = ['byte', 'short', 'int', 'long', 'float', 'double']
+
+function widestType(elements: NbtTag[], path: string): keyof NbtValues {
+  if (elements.length === 0) {
+    return 'end'
+  }
+  return elements.reduce<keyof NbtValues>((acc, e) => {
+    if (acc === e.type) return acc
+    const a = numericTypes.indexOf(acc)
+    const b = numericTypes.indexOf(e.type)
+    if (a === -1 || b === -1) {
+      throw new Error(`Expected ${path || 'root'} to be a list of ${acc}s, but found ${e.type}`)
+    }
+    return numericTypes[Math.max(a, b)]
+  }, elements[0].type)
+}
+
+function describeJson(json: PlainJson) {
+  if (json === null) return 'null'
+  if (Array.isArray(json)) return 'an array'
+  return typeof json
+}
@@ -0,0 +1,257 @@
+/**
+ * LZ4 block stream, as written by lz4-java's LZ4BlockOutputStream
+ * which Minecraft uses for chunk compression type 4.
+ */
+
+const magic = [76, 90, 52, 66, 108, 111, 99, 107] // LZ4Block
+const headerLength = magic.length + 13
+const methodRaw = 0x10
+const methodLz4 = 0x20
+const checksumSeed = 0x9747b28c
+const blockLevel = 6
+const blockSize = 1 << (10 + blockLevel)
+
+export function decompressLz4(data: Uint8Array) {
+  const dataView = new DataView(data.buffer, data.byteOffset, data.byteLength)
+  const blocks: Uint8Array[] = []
+  let offset = 0
+  while (true) {
+    if (offset + headerLength > data.length || magic.some((b, i) => data[offset + i] !== b)) {
+      throw new Error(`Invalid LZ4 block header at ${offset}`)
+    }
+    const token = data[offset + magic.length]
+    const compressedLength = dataView.getInt32(offset + magic.length + 1, true)
+    const originalLength = dataView.getInt32(offset + magic.length + 5, true)
+    const checksum = dataView.getInt32(offset + magic.length + 9, true)
+    offset += headerLength
+
+    if (originalLength === 0 && compressedLength === 0) {
+      break
+    }
+    if (originalLength < 0 || originalLength > 1 << (10 + (token & 0x0F))
+        || compressedLength < 0 || offset + compressedLength > data.length) {
+      throw new Error(`Invalid LZ4 block lengths at ${offset - headerLength}`)
+    }
+
+    const compressed = data.subarray(offset, offset + compressedLength)
+    let block: Uint8Array
+    switch (token & 0xF0) {
+      case methodRaw:
+        if (compressedLength !== originalLength) {
+          throw new Error('Invalid raw LZ4 block length')
+        }
+        block = compressed.slice()
+        break
+      case methodLz4:
+        block = decodeBlock(compressed, originalLength)
+        break
+      default:
+        throw new Error(`Invalid LZ4 compression method ${token & 0xF0}`)
+    }
+    if ((xxhash32(block, checksumSeed) & 0xFFFFFFF) !== checksum) {
+      throw new Error('LZ4 block checksum mismatch')
+    }
+    blocks.push(block)
+    offset += compressedLength
+  }
+
+  const result = new Uint8Array(blocks.reduce((acc, b) => acc + b.length, 0))
+  let position = 0
+  for (const block of blocks) {
+    result.set(block, position)
+    position += block.length
+  }
+  return result
+}
+
+export function compressLz4(data: Uint8Array) {
+  const parts: Uint8Array[] = []
+  for (let i = 0; i < data.length; i += blockSize) {
+    const block = data.subarray(i, i + blockSize)
+    const compressed = encodeBlock(block)
+    const raw = compressed.length >= block.length
+    parts.push(blockHeader(raw ? methodRaw : methodLz4, raw ? block.length : compressed.length, block.length, xxhash32(block, checksumSeed) & 0xFFFFFFF))
+    parts.push(raw ? block : compressed)
+  }
+  parts.push(blockHeader(methodRaw, 0, 0, 0))
+
+  const result = new Uint8Array(parts.reduce((acc, p) => acc + p.length, 0))
+  let position = 0
+  for (const part of parts) {
+    result.set(part, position)
+    position += part.length
+  }
+  return result
+}
+
+function blockHeader(method: number, compressedLength: number, originalLength: number, checksum: number) {
+  const header = new Uint8Array(headerLength)
+  const dataView = new DataView(header.buffer)
+  header.set(magic)
+  header[magic.length] = method | blockLevel
+  dataView.setInt32(magic.length + 1, compressedLength, true)
+  dataView.setInt32(magic.length + 5, originalLength, true)
+  dataView.setInt32(magic.length + 9, checksum, true)
+  return header
+}
+
+function decodeBlock(src: Uint8Array, originalLength: number) {
+  const dst = new Uint8Array(originalLength)
+  let ip = 0
+  let op = 0
+
+  const readLength = (length: number) => {
+    if (length === 15) {
+      let b
+      do {
+        if (ip >= src.length) {
+          throw new Error('Truncated LZ4 block')
+        }
+        b = src[ip++]
+        length += b
+      } while (b === 255)
+    }
+    return length
+  }
+
+  while (ip < src.length) {
+    const token = src[ip++]
+    const literals = readLength(token >>> 4)
+    if (ip + literals > src.length || op + literals > originalLength) {
+      throw new Error('Invalid LZ4 literal length')
+    }
+    dst.set(src.subarray(ip, ip + literals), op)
+    ip += literals
+    op += literals
+    if (ip >= src.length) {
+      break
+    }
+
+    if (ip + 2 > src.length) {
+      throw new Error('Truncated LZ4 block')
+    }
+    const matchOffset = src[ip] | src[ip + 1] << 8
+    ip += 2
+    const matchLength = readLength(token & 0x0F) + 4
+    let ref = op - matchOffset
+    if (matchOffset === 0 || ref < 0 || op + matchLength > originalLength) {
+      throw new Error('Invalid LZ4 match')
+    }
+    for (let i = 0; i < matchLength; i++) {
+      dst[op++] = dst[ref++]
+    }
+  }
+
+  if (op !== originalLength) {
+    throw new Error(`Expected ${originalLength} bytes in LZ4 block, but found ${op}`)
+  }
+  return dst
+}
+
+function encodeBlock(src: Uint8Array) {
+  const n = src.length
+  const dst = new Uint8Array(n + Math.ceil(n / 255) + 16)
+  const table = new Int32Array(4096).fill(-1)
+  let op = 0
+  let anchor = 0
+  let ip = 0
+
+  const writeLength = (length: number) => {
+    for (length -= 15; length >= 255; length -= 255) {
+      dst[op++] = 255
+    }
+    dst[op++] = length
+  }
+
+  const writeLiterals = (end: number, matchLength: number) => {
+    const literals = end - anchor
+    dst[op++] = Math.min(literals, 15) << 4 | Math.min(matchLength, 15)
+    if (literals >= 15) {
+      writeLength(literals)
+    }
+    dst.set(src.subarray(anchor, end), op)
+    op += literals
+  }
+
+  while (ip < n - 12) {
+    const sequence = read32(src, ip)
+    const hash = Math.imul(sequence, 2654435761) >>> 20
+    const ref = table[hash]
+    table[hash] = ip
+    if (ref < 0 || ip - ref >= 65536 || read32(src, ref) !== sequence) {
+      ip += 1
+      continue
+    }
+
+    let length = 4
+    while (ip + length < n - 5 && src[ref + length] === src[ip + length]) {
+      length += 1
+    }
+    writeLiterals(ip, length - 4)
+    dst[op++] = (ip - ref) & 0xFF
+    dst[op++] = (ip - ref) >> 8
+    if (length - 4 >= 15) {
+      writeLength(length - 4)
+    }
+    ip += length
+    anchor = ip
+  }
+  writeLiterals(n, 0)
+
+  return dst.slice(0, op)
+}
+
+function read32(array: Uint8Array, i: number) {
+  return array[i] | array[i + 1] << 8 | array[i + 2] << 16 | array[i + 3] << 24
+}
+
+const PRIME1 = 0x9E3779B1
+const PRIME2 = 0x85EBCA77
+const PRIME3 = 0xC2B2AE3D
+const PRIME4 = 0x27D4EB2F
+const PRIME5 = 0x165667B1
+
+function rotl(x: number, r: number) {
+  return (x << r) | (x >>> (32 - r))
+}
+
+function round(acc: number, input: number) {
+  acc = (acc + Math.imul(input, PRIME2)) | 0
+  return Math.imul(rotl(acc, 13), PRIME1)
+}
+
+export function xxhash32(data: Uint8Array, seed: number) {
+  const length = data.length
+  let i = 0
+  let h: number
+  if (length >= 16) {
+    let v1 = (seed + PRIME1 + PRIME2) | 0
+    let v2 = (seed + PRIME2) | 0
+    let v3 = seed | 0
+    let v4 = (seed - PRIME1) | 0
+    for (; i <= length - 16; i += 16) {
+      v1 = round(v1, read32(data, i))
+      v2 = round(v2, read32(data, i + 4))
+      v3 = round(v3, read32(data, i + 8))
+      v4 = round(v4, read32(data, i + 12))
+    }
+    h = (rotl(v1, 1) + rotl(v2, 7) + rotl(v3, 12) + rotl(v4, 18)) | 0
+  } else {
+    h = (seed + PRIME5) | 0
+  }
+  h = (h + length) | 0
+  for (; i <= length - 4; i += 4) {
+    h = (h + Math.imul(read32(data, i), PRIME3)) | 0
+    h = Math.imul(rotl(h, 17), PRIME4)
+  }
+  for (; i < length; i += 1) {
+    h = (h + Math.imul(data[i], PRIME5)) | 0
+    h = Math.imul(rotl(h, 11), PRIME1)
+  }
+  h ^= h >>> 15
+  h = Math.imul(h, PRIME2)
+  h ^= h >>> 13
+  h = Math.imul(h, PRIME3)
+  h ^= h >>> 16
+  return h >>> 0
+}
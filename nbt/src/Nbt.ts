@@ -1,20 +1,25 @@
 import pako from 'pako'
+import { compressChunk, decompressChunk } from './Compression'
 import { NbtReader } from './Reader'
 import { hasGzipHeader } from './Utils'
 import { NbtWriter } from './Writer'
 
+/**
+ * Long and array values also allow the bigint and typed array forms produced by
+ * the `bigint` and `typedArrays` read options, see CHANGELOG.md
+ */
 export interface NbtValues {
   end: null
   byte: number
   short: number
   int: number
-  long: [number, number]
+  long: [number, number] | bigint
   float: number
   double: number
   string: string
-  byteArray: number[]
-  intArray: number[]
-  longArray: [number, number][]
+  byteArray: number[] | Int8Array
+  intArray: number[] | Int32Array
+  longArray: [number, number][] | BigInt64Array
   list: {
     [Type in keyof NbtValues]: {
       type: Type,
@@ -40,6 +45,46 @@ export type NamedNbtTag = {
   }
 }
 
+/**
+ * Java Edition encodes strings as modified UTF-8 and Bedrock Edition as
+ * standard UTF-8. Defaults to `utf8` for little-endian data, which only
+ * Bedrock uses, and to `modifiedUtf8` otherwise.
+ */
+export type NbtStringEncoding = 'utf8' | 'modifiedUtf8'
+
+export type NbtReadOptions = {
+  /** Read long and longArray tags as bigint and BigInt64Array instead of [high, low] pairs */
+  bigint?: boolean
+  /** Read byteArray, intArray and longArray tags as Int8Array, Int32Array and BigInt64Array */
+  typedArrays?: boolean
+  /** Read ints, longs and lengths as zig-zag varints, as in Bedrock's network format */
+  varint?: boolean
+  stringEncoding?: NbtStringEncoding
+  /** Maximum nesting of lists and compounds, defaults to 512 like vanilla */
+  maxDepth?: number
+  /** Maximum size of the uncompressed data in bytes */
+  maxBytes?: number
+  /** Maximum length of arrays, lists and strings */
+  maxArrayLength?: number
+}
+
+export class NbtParseError extends Error {
+  constructor(
+    message: string,
+    public readonly offset: number,
+    public readonly path: string
+  ) {
+    super(`${message} at offset ${offset}${path ? ` in ${path}` : ''}`)
+    this.name = 'NbtParseError'
+  }
+}
+
+export type NbtWriteOptions = {
+  /** Write ints, longs and lengths as zig-zag varints, as in Bedrock's network format */
+  varint?: boolean
+  stringEncoding?: NbtStringEncoding
+}
+
 export type NbtChunk = {
   x: number
   z: number
@@ -81,11 +126,11 @@ export const tagNames = [
   'longArray'
 ] as const
 
-export function readUncompressed(array: Uint8Array, littleEndian?: boolean): NamedNbtTag {
-  const reader = new NbtReader(array, littleEndian)
+export function readUncompressed(array: Uint8Array, littleEndian?: boolean, options?: NbtReadOptions): NamedNbtTag {
+  const reader = new NbtReader(array, littleEndian, options)
   const type = reader.byte()
   if (type !== tagTypes.compound) {
-    throw new Error('Top tag should be a compound')
+    throw reader.error('Top tag should be a compound', 0)
   }
   return {
     name: reader.string(),
@@ -93,16 +138,43 @@ export function readUncompressed(array: Uint8Array, littleEndian?: boolean): Nam
   }
 }
 
-export function readCompressed(array: Uint8Array, littleEndian?: boolean): NamedNbtTag {
-  const uncompressed = pako.inflate(array)
-  return readUncompressed(uncompressed, littleEndian)
+export function readCompressed(array: Uint8Array, littleEndian?: boolean, options?: NbtReadOptions): NamedNbtTag {
+  const uncompressed = inflate(array, options?.maxBytes)
+  return readUncompressed(uncompressed, littleEndian, options)
+}
+
+function inflate(array: Uint8Array, maxBytes?: number) {
+  if (maxBytes === undefined) {
+    return pako.inflate(array)
+  }
+  const inflator = new pako.Inflate()
+  const chunks: Uint8Array[] = []
+  let length = 0
+  inflator.onData = chunk => {
+    length += chunk.length
+    if (length > maxBytes) {
+      throw new NbtParseError(`Uncompressed data exceeds the limit of ${maxBytes} bytes`, 0, '')
+    }
+    chunks.push(chunk as Uint8Array)
+  }
+  inflator.push(array, true)
+  if (inflator.err) {
+    throw new Error(inflator.msg)
+  }
+  const result = new Uint8Array(length)
+  let offset = 0
+  for (const chunk of chunks) {
+    result.set(chunk, offset)
+    offset += chunk.length
+  }
+  return result
 }
 
-export function read(array: Uint8Array, littleEndian?: boolean) {
+export function read(array: Uint8Array, littleEndian?: boolean, options?: NbtReadOptions) {
   if (hasGzipHeader(array)) {
-    return { compressed: true, result: readCompressed(array, littleEndian) }
+    return { compressed: true, result: readCompressed(array, littleEndian, options) }
   } else {
-    return { compressed: false, result: readUncompressed(array, littleEndian) }
+    return { compressed: false, result: readUncompressed(array, littleEndian, options) }
   }
 }
 
@@ -130,40 +202,35 @@ export function readRegion(array: Uint8Array): NbtChunk[] {
 
 export function readChunk(chunks: NbtChunk[], x: number, z: number) {
   const chunk = findChunk(chunks, x, z)
-  switch (chunk.compression) {
-    case 1:
-    case 2: chunk.nbt = readCompressed(chunk.data); break
-    case 3: chunk.nbt = readUncompressed(chunk.data); break
-    default: throw new Error(`Invalid compression mode ${chunk.compression}`)
-  }
+  chunk.nbt = readUncompressed(decompressChunk(chunk.compression, chunk.data))
   return chunk
 }
 
-export function writeUncompressed(value: NamedNbtTag, littleEndian?: boolean) {
-  const writer = new NbtWriter(littleEndian)
+export function writeUncompressed(value: NamedNbtTag, littleEndian?: boolean, options?: NbtWriteOptions) {
+  const writer = new NbtWriter(littleEndian, options)
   writer.byte(tagTypes.compound)
   writer.string(value.name)
   writer.compound(value.value)
   return writer.getData()
 }
 
-export function writeCompressed(value: NamedNbtTag, littleEndian?: boolean, zlib?: boolean) {
-  const uncompressed = writeUncompressed(value, littleEndian)
+export function writeCompressed(value: NamedNbtTag, littleEndian?: boolean, zlib?: boolean, options?: NbtWriteOptions) {
+  const uncompressed = writeUncompressed(value, littleEndian, options)
   return pako[zlib ? 'deflate' : 'gzip'](uncompressed)
 }
 
-export function write(value: NamedNbtTag, compressed: boolean, littleEndian?: boolean) {
+export function write(value: NamedNbtTag, compressed: boolean, littleEndian?: boolean, options?: NbtWriteOptions) {
   if (compressed) {
-    return writeCompressed(value, littleEndian)
+    return writeCompressed(value, littleEndian, false, options)
   } else {
-    return writeUncompressed(value, littleEndian)
+    return writeUncompressed(value, littleEndian, options)
   }
 }
 
 export function writeRegion(chunks: NbtChunk[]) {
   let totalSectors = 0
   for (const chunk of chunks) {
-    totalSectors += Math.ceil(chunk.data.length / 4096)
+    totalSectors += Math.ceil((chunk.data.length + 5) / 4096)
   }
 
   const array = new Uint8Array(8192 + totalSectors * 4096)
@@ -171,7 +238,7 @@ export function writeRegion(chunks: NbtChunk[]) {
   let offset = 2
   for (const chunk of chunks) {
     const i = 4 * ((chunk.x & 31) + (chunk.z & 31) * 32)
-    const sectors = Math.ceil(chunk.data.length / 4096)
+    const sectors = Math.ceil((chunk.data.length + 5) / 4096)
     dataView.setInt8(i, offset >> 16)
     dataView.setInt16(i + 1, offset & 0xffff)
     dataView.setInt8(i + 3, sectors)
@@ -189,12 +256,7 @@ export function writeRegion(chunks: NbtChunk[]) {
 
 export function writeChunk(chunks: NbtChunk[], x: number, z: number, nbt: NamedNbtTag) {
   const chunk = findChunk(chunks, x, z)
-  switch (chunk.compression) {
-    case 1: chunk.data = writeCompressed(nbt); break
-    case 2: chunk.data = writeCompressed(nbt, false, true); break
-    case 3: chunk.data = writeUncompressed(nbt); break
-    default: throw new Error(`Invalid compression mode ${chunk.compression}`)
-  }
+  chunk.data = compressChunk(chunk.compression, writeUncompressed(nbt))
   return chunk
 }
 
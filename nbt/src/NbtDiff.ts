@@ -0,0 +1,196 @@
+import { NbtTag, NbtValues } from './Nbt'
+import { stringifySnbt } from './Snbt'
+import { NbtTagPath, stringifyNbtTagPath } from './TagPath'
+import { cloneNbt, equalsNbt } from './TagUtils'
+
+export type NbtDiffPath = NbtTagPath
+
+export { stringifyNbtTagPath as stringifyNbtDiffPath }
+
+export type NbtDiffOperation =
+  | { op: 'added', path: NbtDiffPath, value: NbtTag }
+  | { op: 'removed', path: NbtDiffPath, oldValue: NbtTag }
+  | { op: 'changed', path: NbtDiffPath, oldValue: NbtTag, value: NbtTag }
+
+type List = { type: keyof NbtValues, value: any[] }
+
+export type NbtDiffOptions = {
+  /** Whether lists with the same elements in a different order are considered different, defaults to true */
+  orderedLists?: boolean
+}
+
+export function diffNbt(a: NbtTag, b: NbtTag, options: NbtDiffOptions = {}): NbtDiffOperation[] {
+  const result: NbtDiffOperation[] = []
+  diffTag(a, b, [], options.orderedLists ?? true, result)
+  return result
+}
+
+function diffTag(a: NbtTag, b: NbtTag, path: NbtDiffPath, ordered: boolean, result: NbtDiffOperation[]) {
+  if (a.type !== b.type) {
+    result.push({ op: 'changed', path, oldValue: cloneNbt(a), value: cloneNbt(b) })
+    return
+  }
+  switch (a.type) {
+    case 'compound': {
+      const bValue = b.value as NbtValues['compound']
+      Object.keys(a.value).forEach(key => {
+        if (bValue[key] === undefined) {
+          result.push({ op: 'removed', path: [...path, key], oldValue: cloneNbt(a.value[key]) })
+        } else {
+          diffTag(a.value[key], bValue[key], [...path, key], ordered, result)
+        }
+      })
+      Object.keys(bValue).forEach(key => {
+        if (a.value[key] === undefined) {
+          result.push({ op: 'added', path: [...path, key], value: cloneNbt(bValue[key]) })
+        }
+      })
+      break
+    }
+    case 'list': {
+      const aList = a.value as List
+      const bList = b.value as List
+      if (!patchable(aList, bList)) {
+        result.push({ op: 'changed', path, oldValue: cloneNbt(a), value: cloneNbt(b) })
+      } else if (ordered) {
+        diffOrderedList(aList, bList, path, result)
+      } else {
+        diffUnorderedList(aList, bList, path, result)
+      }
+      break
+    }
+    default:
+      if (!equalsNbt(a, b)) {
+        result.push({ op: 'changed', path, oldValue: cloneNbt(a), value: cloneNbt(b) })
+      }
+  }
+}
+
+function diffOrderedList(a: List, b: List, path: NbtDiffPath, result: NbtDiffOperation[]) {
+  const common = Math.min(a.value.length, b.value.length)
+  for (let i = 0; i < common; i += 1) {
+    diffTag(element(a, i), element(b, i), [...path, i], true, result)
+  }
+  for (let i = a.value.length - 1; i >= common; i -= 1) {
+    result.push({ op: 'removed', path: [...path, i], oldValue: cloneNbt(element(a, i)) })
+  }
+  for (let i = common; i < b.value.length; i += 1) {
+    result.push({ op: 'added', path: [...path, i], value: cloneNbt(element(b, i)) })
+  }
+}
+
+function diffUnorderedList(a: List, b: List, path: NbtDiffPath, result: NbtDiffOperation[]) {
+  const unmatched = a.value.map((_, i) => i)
+  const added: number[] = []
+  b.value.forEach((_, i) => {
+    const match = unmatched.findIndex(j => equalsNbt(element(a, j), element(b, i)))
+    if (match === -1) {
+      added.push(i)
+    } else {
+      unmatched.splice(match, 1)
+    }
+  })
+  for (let k = unmatched.length - 1; k >= 0; k -= 1) {
+    const i = unmatched[k]
+    result.push({ op: 'removed', path: [...path, i], oldValue: cloneNbt(element(a, i)) })
+  }
+  const length = a.value.length - unmatched.length
+  added.forEach((i, k) => {
+    result.push({ op: 'added', path: [...path, length + k], value: cloneNbt(element(b, i)) })
+  })
+}
+
+/**
+ * Whether adding and removing elements turns one list into the other. Empty
+ * lists take the type of the first added element and become `end` lists
+ * when their last element is removed.
+ */
+function patchable(a: List, b: List) {
+  if (b.value.length === 0) {
+    return a.value.length === 0 ? a.type === b.type : b.type === 'end'
+  }
+  return a.value.length === 0 || a.type === b.type
+}
+
+function element(list: List, i: number) {
+  return { type: list.type, value: list.value[i] } as NbtTag
+}
+
+export function applyNbtPatch(tag: NbtTag, operations: NbtDiffOperation[]): NbtTag {
+  let root: NbtTag = cloneNbt(tag)
+  operations.forEach(operation => {
+    const { path } = operation
+    if (path.length === 0) {
+      if (operation.op !== 'changed') {
+        throw new Error(`Cannot apply ${operation.op} operation to the root tag`)
+      }
+      root = cloneNbt(operation.value)
+      return
+    }
+    let parent = root
+    path.slice(0, -1).forEach((key, i) => {
+      const child = getChild(parent, key)
+      if (child === undefined) {
+        throw new Error(`Cannot find ${stringifyNbtTagPath(path.slice(0, i + 1))}`)
+      }
+      parent = child
+    })
+    const key = path[path.length - 1]
+    if (typeof key === 'string') {
+      if (parent.type !== 'compound') {
+        throw new Error(`Expected ${stringifyNbtTagPath(path.slice(0, -1)) || 'root'} to be of type compound, but found ${parent.type}`)
+      }
+      if (operation.op === 'removed') {
+        delete parent.value[key]
+      } else {
+        parent.value[key] = cloneNbt(operation.value)
+      }
+      return
+    }
+    if (parent.type !== 'list') {
+      throw new Error(`Expected ${stringifyNbtTagPath(path.slice(0, -1)) || 'root'} to be a list, but found ${parent.type}`)
+    }
+    const list = parent.value as List
+    const max = operation.op === 'added' ? list.value.length : list.value.length - 1
+    if (key < 0 || key > max) {
+      throw new Error(`Cannot find ${stringifyNbtTagPath(path)}`)
+    }
+    if (operation.op === 'removed') {
+      list.value.splice(key, 1)
+      if (list.value.length === 0) {
+        list.type = 'end'
+      }
+      return
+    }
+    if (list.value.length > (operation.op === 'added' ? 0 : 1) && list.type !== operation.value.type) {
+      throw new Error(`Expected ${stringifyNbtTagPath(path.slice(0, -1))} to be a list of ${operation.value.type}s, but found ${list.type}s`)
+    }
+    list.type = operation.value.type
+    list.value.splice(key, operation.op === 'added' ? 0 : 1, cloneNbt(operation.value).value)
+  })
+  return root
+}
+
+function getChild(tag: NbtTag, key: string | number): NbtTag | undefined {
+  if (typeof key === 'string') {
+    return tag.type === 'compound' ? tag.value[key] : undefined
+  }
+  if (tag.type !== 'list' || key < 0 || key >= tag.value.value.length) {
+    return undefined
+  }
+  return element(tag.value as List, key)
+}
+
+export function stringifyNbtDiff(operations: NbtDiffOperation[]) {
+  return operations.map(operation => {
+    const path = stringifyNbtTagPath(operation.path) || '<root>'
+    switch (operation.op) {
+      case 'added':
+        return `+ ${path}: ${stringifySnbt(operation.value)}`
+      case 'removed':
+        return `- ${path}: ${stringifySnbt(operation.oldValue)}`
+      case 'changed':
+        return `~ ${path}: ${stringifySnbt(operation.oldValue)} -> ${stringifySnbt(operation.value)}`
+    }
+  }).join('\n')
+}
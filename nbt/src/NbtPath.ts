@@ -0,0 +1,399 @@
+import { NbtTag, NbtValues } from './Nbt'
+import { stringifySnbt } from './Snbt'
+import { SnbtParser } from './SnbtParser'
+import { checkListTag, checkTag, cloneNbt, equalsNbt, longToBigInt, longToPair, matchesNbt } from './TagUtils'
+import { quoteName } from './Utils'
+
+type PathNode =
+  | { kind: 'root', filter: NbtValues['compound'] }
+  | { kind: 'child', name: string }
+  | { kind: 'match', name: string, filter: NbtValues['compound'] }
+  | { kind: 'index', index: number }
+  | { kind: 'all' }
+  | { kind: 'filter', filter: NbtValues['compound'] }
+
+type Collection = {
+  type: keyof NbtValues
+  elements: NbtTag[]
+  /** Empty lists take the type of the first element, arrays keep theirs */
+  fixedType: boolean
+  /** Stores the elements back into the list or array tag */
+  update: (elements: NbtTag[]) => void
+}
+
+const arrayElements = {
+  'byteArray': 'byte',
+  'intArray': 'int',
+  'longArray': 'long'
+} as const
+
+export class NbtPath {
+  private constructor(
+    private nodes: PathNode[]
+  ) {}
+
+  public get(root: NbtTag): NbtTag[] {
+    let tags = [root]
+    this.nodes.forEach((node, i) => {
+      tags = flatMap(tags, tag => this.getNode(node, tag, i))
+    })
+    return tags
+  }
+
+  public set(root: NbtTag, value: NbtTag): number {
+    const last = this.nodes.length - 1
+    return this.getOrCreateParents(root).reduce((count, parent) => {
+      return count + this.setNode(this.nodes[last], parent, value, last)
+    }, 0)
+  }
+
+  public remove(root: NbtTag): number {
+    const last = this.nodes.length - 1
+    let parents = [root]
+    for (let i = 0; i < last; i += 1) {
+      parents = flatMap(parents, tag => this.getNode(this.nodes[i], tag, i))
+    }
+    return parents.reduce((count, parent) => {
+      return count + this.removeNode(this.nodes[last], parent, last)
+    }, 0)
+  }
+
+  public toString() {
+    return this.prefix(this.nodes.length)
+  }
+
+  private prefix(end: number) {
+    let result = ''
+    this.nodes.slice(0, end).forEach((node, i) => {
+      switch (node.kind) {
+        case 'root': result += stringifyCompound(node.filter); break
+        case 'child': result += (i > 0 ? '.' : '') + quoteName(node.name); break
+        case 'match': result += (i > 0 ? '.' : '') + quoteName(node.name) + stringifyCompound(node.filter); break
+        case 'index': result += `[${node.index}]`; break
+        case 'all': result += '[]'; break
+        case 'filter': result += `[${stringifyCompound(node.filter)}]`; break
+      }
+    })
+    return result
+  }
+
+  private getOrCreateParents(root: NbtTag) {
+    let tags = [root]
+    for (let i = 0; i < this.nodes.length - 1; i += 1) {
+      const next = this.nodes[i + 1]
+      const create = (): NbtTag => (next.kind === 'index' || next.kind === 'all' || next.kind === 'filter')
+        ? { type: 'list', value: { type: 'end', value: [] } }
+        : { type: 'compound', value: {} }
+      tags = flatMap(tags, tag => this.getOrCreateNode(this.nodes[i], tag, i, create))
+    }
+    return tags
+  }
+
+  private getNode(node: PathNode, tag: NbtTag, i: number): NbtTag[] {
+    switch (node.kind) {
+      case 'root':
+        return matchesNbt({ type: 'compound', value: node.filter }, tag) ? [tag] : []
+      case 'child':
+      case 'match': {
+        const child = this.compound(tag, i)[node.name]
+        if (child === undefined) return []
+        if (node.kind === 'match' && !matchesNbt({ type: 'compound', value: node.filter }, child)) return []
+        return [child]
+      }
+      case 'index': {
+        const { elements } = this.collection(tag, i)
+        const index = node.index < 0 ? elements.length + node.index : node.index
+        if (index < 0 || index >= elements.length) return []
+        return [elements[index]]
+      }
+      case 'all':
+        return this.collection(tag, i).elements
+      case 'filter': {
+        const collection = this.collection(tag, i)
+        if (collection.type !== 'compound') return []
+        return collection.elements.filter(t => matchesNbt({ type: 'compound', value: node.filter }, t))
+      }
+    }
+  }
+
+  private getOrCreateNode(node: PathNode, tag: NbtTag, i: number, create: () => NbtTag): NbtTag[] {
+    switch (node.kind) {
+      case 'child': {
+        const compound = this.compound(tag, i)
+        if (compound[node.name] === undefined) {
+          compound[node.name] = create()
+        }
+        return [compound[node.name]]
+      }
+      case 'match': {
+        const compound = this.compound(tag, i)
+        if (compound[node.name] === undefined) {
+          compound[node.name] = cloneNbt({ type: 'compound', value: node.filter })
+        }
+        return this.getNode(node, tag, i)
+      }
+      case 'all':
+      case 'filter': {
+        const result = this.getNode(node, tag, i)
+        const collection = this.collection(tag, i)
+        if (result.length > 0 || (node.kind === 'all' && collection.elements.length > 0)) {
+          return result
+        }
+        const created = node.kind === 'filter'
+          ? cloneNbt({ type: 'compound', value: node.filter })
+          : create()
+        if (!insertable(collection, created)) {
+          return []
+        }
+        collection.update([...collection.elements, created])
+        return [created]
+      }
+      default:
+        return this.getNode(node, tag, i)
+    }
+  }
+
+  private setNode(node: PathNode, tag: NbtTag, value: NbtTag, i: number): number {
+    switch (node.kind) {
+      case 'root':
+        throw new Error('Cannot set the root of a path')
+      case 'child':
+      case 'match': {
+        const compound = this.compound(tag, i)
+        const existing = compound[node.name]
+        if (node.kind === 'match' && (existing === undefined || !matchesNbt({ type: 'compound', value: node.filter }, existing))) {
+          return 0
+        }
+        if (existing !== undefined && equalsNbt(existing, value)) {
+          return 0
+        }
+        compound[node.name] = cloneNbt(value)
+        return 1
+      }
+      case 'index': {
+        const collection = this.collection(tag, i)
+        const { elements } = collection
+        const index = node.index < 0 ? elements.length + node.index : node.index
+        if (index < 0 || index >= elements.length) {
+          return 0
+        }
+        this.checkInsertable(collection, value, i)
+        if (equalsNbt(elements[index], value)) {
+          return 0
+        }
+        collection.update(elements.map((e, j) => j === index ? cloneNbt(value) : e))
+        return 1
+      }
+      case 'all':
+      case 'filter': {
+        const collection = this.collection(tag, i)
+        this.checkInsertable(collection, value, i)
+        if (node.kind === 'all' && collection.elements.length === 0) {
+          collection.update([cloneNbt(value)])
+          return 1
+        }
+        let count = 0
+        const elements = collection.elements.map(element => {
+          if (node.kind === 'filter' && !matchesNbt({ type: 'compound', value: node.filter }, element)) return element
+          if (equalsNbt(element, value)) return element
+          count += 1
+          return cloneNbt(value)
+        })
+        if (count > 0) {
+          collection.update(elements)
+        }
+        return count
+      }
+    }
+  }
+
+  private removeNode(node: PathNode, tag: NbtTag, i: number): number {
+    switch (node.kind) {
+      case 'root':
+        throw new Error('Cannot remove the root of a path')
+      case 'child':
+      case 'match': {
+        if (this.getNode(node, tag, i).length === 0) {
+          return 0
+        }
+        delete this.compound(tag, i)[node.name]
+        return 1
+      }
+      case 'index': {
+        const collection = this.collection(tag, i)
+        const index = node.index < 0 ? collection.elements.length + node.index : node.index
+        if (index < 0 || index >= collection.elements.length) {
+          return 0
+        }
+        removeWhere(collection, (_, j) => j === index)
+        return 1
+      }
+      case 'all':
+      case 'filter': {
+        const collection = this.collection(tag, i)
+        const filter: NbtTag = { type: 'compound', value: node.kind === 'filter' ? node.filter : {} }
+        return removeWhere(collection, element => node.kind === 'all'
+          || (collection.type === 'compound' && matchesNbt(filter, element)))
+      }
+    }
+  }
+
+  /** The name of the tag reached after `i` nodes, used in errors */
+  private tagName(i: number) {
+    return this.prefix(i) || 'root'
+  }
+
+  private compound(tag: NbtTag, i: number) {
+    return checkTag(tag, this.tagName(i), 'compound')
+  }
+
+  private collection(tag: NbtTag, i: number): Collection {
+    if (tag.type === 'byteArray' || tag.type === 'intArray' || tag.type === 'longArray') {
+      const type = arrayElements[tag.type]
+      const array = tag.value
+      return {
+        type,
+        elements: Array.from<NbtValues[typeof type], NbtTag>(array, value => ({ type, value }) as NbtTag),
+        fixedType: true,
+        update: elements => updateArray(tag, elements),
+      }
+    }
+    const list = checkTag(tag, this.tagName(i), 'list')
+    const type = list.type
+    return {
+      type,
+      elements: (list.value as NbtValues[typeof type][]).map(value => ({ type, value }) as NbtTag),
+      fixedType: false,
+      update: elements => {
+        tag.value = {
+          type: elements.length === 0 ? 'end' : elements[0].type,
+          value: elements.map(e => e.value),
+        } as NbtValues['list']
+      },
+    }
+  }
+
+  private checkInsertable(collection: Collection, value: NbtTag, i: number) {
+    if (!insertable(collection, value)) {
+      // Arrays are reported like lists of their element type
+      const list = { type: collection.type, value: collection.elements.map(e => e.value) } as NbtValues['list']
+      checkListTag({ type: 'list', value: list }, this.tagName(i), value.type)
+    }
+  }
+
+  public static parse(text: string) {
+    const parser = new SnbtParser(text)
+    const nodes: PathNode[] = []
+    while (parser.canRead() && parser.peek() !== ' ') {
+      nodes.push(parseNode(parser, nodes.length === 0))
+      if (parser.canRead()) {
+        const c = parser.peek()
+        if (c !== ' ' && c !== '[' && c !== '{') {
+          parser.expect('.')
+        }
+      }
+    }
+    if (nodes.length === 0) {
+      throw parser.error('Expected path')
+    }
+    if (parser.canRead()) {
+      throw parser.error('Trailing data after path')
+    }
+    return new NbtPath(nodes)
+  }
+}
+
+function parseNode(parser: SnbtParser, isRoot: boolean): PathNode {
+  const start = parser.cursor
+  switch (parser.peek()) {
+    case '{':
+      if (!isRoot) {
+        throw parser.error('Compound filters are only allowed at the start of a path', start)
+      }
+      return { kind: 'root', filter: parser.compound() }
+    case '[': {
+      parser.cursor += 1
+      const c = parser.peek()
+      if (c === '{') {
+        const filter = parser.compound()
+        parser.expect(']')
+        return { kind: 'filter', filter }
+      } else if (c === ']') {
+        parser.cursor += 1
+        return { kind: 'all' }
+      }
+      const indexStart = parser.cursor
+      const index = parser.unquoted()
+      if (!/^-?[0-9]+$/.test(index)) {
+        throw parser.error('Expected index', indexStart)
+      }
+      parser.expect(']')
+      return { kind: 'index', index: parseInt(index) }
+    }
+    case '"':
+    case '\'':
+      return parseNamed(parser, parser.quoted())
+    default: {
+      let name = ''
+      while (parser.canRead() && !/[ "'\[\].{}]/.test(parser.peek())) {
+        name += parser.peek()
+        parser.cursor += 1
+      }
+      if (name === '') {
+        throw parser.error('Expected key', start)
+      }
+      return parseNamed(parser, name)
+    }
+  }
+}
+
+function parseNamed(parser: SnbtParser, name: string): PathNode {
+  if (parser.peek() === '{') {
+    return { kind: 'match', name, filter: parser.compound() }
+  }
+  return { kind: 'child', name }
+}
+
+function insertable(collection: Collection, value: NbtTag) {
+  if (!collection.fixedType && collection.elements.length === 0) {
+    return true
+  }
+  return collection.type === value.type
+}
+
+function removeWhere(collection: Collection, predicate: (element: NbtTag, index: number) => boolean) {
+  const remaining = collection.elements.filter((e, j) => !predicate(e, j))
+  const count = collection.elements.length - remaining.length
+  if (count > 0) {
+    collection.update(remaining)
+  }
+  return count
+}
+
+/** Typed arrays can't grow, so the array is replaced with one of the same kind */
+function updateArray(tag: Extract<NbtTag, { type: 'byteArray' | 'intArray' | 'longArray' }>, elements: NbtTag[]) {
+  const numbers = elements.map(e => e.value as number)
+  switch (tag.type) {
+    case 'byteArray':
+      tag.value = tag.value instanceof Int8Array ? Int8Array.from(numbers) : numbers
+      break
+    case 'intArray':
+      tag.value = tag.value instanceof Int32Array ? Int32Array.from(numbers) : numbers
+      break
+    case 'longArray': {
+      const longs = elements.map(e => e.value as NbtValues['long'])
+      tag.value = tag.value instanceof BigInt64Array
+        ? BigInt64Array.from(longs, longToBigInt)
+        : longs.map(longToPair)
+      break
+    }
+  }
+}
+
+function flatMap<T, U>(array: T[], fn: (value: T) => U[]) {
+  return array.reduce((acc, v) => acc.concat(fn(v)), [] as U[])
+}
+
+function stringifyCompound(value: NbtValues['compound']) {
+  return stringifySnbt({ type: 'compound', value })
+}
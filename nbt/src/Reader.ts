@@ -1,24 +1,80 @@
-import { decodeUTF8 } from './Utils'
-import { NbtTag, NbtValues, tagNames } from './Nbt' 
+import { decodeModifiedUTF8, decodeUTF8, platformLittleEndian, swapEndianness } from './Utils'
+import { NbtParseError, NbtReadOptions, NbtTag, NbtValues, tagNames } from './Nbt'
+import { NbtTagPath, stringifyNbtTagPath } from './TagPath'
+import { longToPair } from './TagUtils'
 
 export class NbtReader {
   public offset: number
   private littleEndian: boolean
+  private bigint: boolean
+  private typedArrays: boolean
+  private varint: boolean
+  private utf8: boolean
+  private maxDepth: number
+  private maxArrayLength: number
+  private path: NbtTagPath
+  private depth: number
   private arrayView: Uint8Array
   private dataView: DataView
 
-  constructor(array: Uint8Array, littleEndian = false) {
+  constructor(array: Uint8Array, littleEndian = false, options: NbtReadOptions = {}) {
     this.offset = 0
     this.littleEndian = littleEndian
+    this.bigint = options.bigint ?? false
+    this.typedArrays = options.typedArrays ?? false
+    this.varint = options.varint ?? false
+    this.utf8 = (options.stringEncoding ?? (littleEndian ? 'utf8' : 'modifiedUtf8')) === 'utf8'
+    this.maxDepth = options.maxDepth ?? 512
+    this.maxArrayLength = options.maxArrayLength ?? Infinity
+    this.path = []
+    this.depth = 0
     this.arrayView = array
-    this.dataView = new DataView(array.buffer, array.byteOffset)
+    this.dataView = new DataView(array.buffer, array.byteOffset, array.byteLength)
+    if (options.maxBytes !== undefined && array.length > options.maxBytes) {
+      throw this.error(`Data of ${array.length} bytes exceeds the limit of ${options.maxBytes} bytes`)
+    }
+  }
+
+  error(message: string, offset = this.offset) {
+    return new NbtParseError(message, offset, stringifyNbtTagPath(this.path))
+  }
+
+  private need(size: number) {
+    if (this.offset + size > this.arrayView.length) {
+      throw this.error(`Unexpected end of data, expected ${size} bytes but found ${this.arrayView.length - this.offset}`)
+    }
+  }
+
+  private length(width: number) {
+    const start = this.offset
+    const length = this.int()
+    if (length < 0) {
+      throw this.error(`Invalid negative length ${length}`, start)
+    }
+    if (length > this.maxArrayLength) {
+      throw this.error(`Length ${length} exceeds the limit of ${this.maxArrayLength}`, start)
+    }
+    if (length * width > this.arrayView.length - this.offset) {
+      throw this.error(`Length ${length} exceeds the remaining ${this.arrayView.length - this.offset} bytes`, start)
+    }
+    return length
+  }
+
+  tagType() {
+    const id = this.byte()
+    const type = tagNames[id]
+    if (type === undefined) {
+      throw this.error(`Invalid tag type ${id}`, this.offset - 1)
+    }
+    return type
   }
 
   end() {
     return null
   }
 
-  private readNum(type: 'getInt8' | 'getInt16' | 'getInt32' | 'getFloat32' | 'getFloat64', size: number) {
+  private readNum(type: 'getInt8' | 'getInt16' | 'getUint16' | 'getInt32' | 'getFloat32' | 'getFloat64', size: number) {
+    this.need(size)
     const value = this.dataView[type](this.offset, this.littleEndian)
     this.offset += size
     return value
@@ -26,16 +82,91 @@ export class NbtReader {
 
   byte = this.readNum.bind(this, 'getInt8', 1)
   short = this.readNum.bind(this, 'getInt16', 2)
-  int = this.readNum.bind(this, 'getInt32', 4)
   float = this.readNum.bind(this, 'getFloat32', 4)
   double = this.readNum.bind(this, 'getFloat64', 8)
+  private int32 = this.readNum.bind(this, 'getInt32', 4)
+  private unsignedShort = this.readNum.bind(this, 'getUint16', 2)
+
+  int(): NbtValues['int'] {
+    if (this.varint) {
+      const value = this.varUint()
+      return (value >>> 1) ^ -(value & 1)
+    }
+    return this.int32()
+  }
 
   long(): NbtValues['long'] {
-    return [this.int(), this.int()]
+    if (this.bigint) {
+      return this.bigInt64()
+    }
+    return this.longPair()
+  }
+
+  private bigInt64() {
+    if (this.varint) {
+      return this.varLong()
+    }
+    this.need(8)
+    const value = this.dataView.getBigInt64(this.offset, this.littleEndian)
+    this.offset += 8
+    return value
+  }
+
+  private longPair(): [number, number] {
+    if (this.varint) {
+      return longToPair(this.varLong())
+    }
+    const a = this.int32()
+    const b = this.int32()
+    return this.littleEndian ? [b, a] : [a, b]
+  }
+
+  private varUint() {
+    let value = 0
+    for (let shift = 0; shift < 35; shift += 7) {
+      const b = this.varintByte()
+      value |= (b & 0x7F) << shift
+      if ((b & 0x80) === 0) {
+        return value >>> 0
+      }
+    }
+    throw this.error('Varint is too long')
+  }
+
+  private varLong() {
+    let value = BigInt(0)
+    for (let shift = 0; shift < 70; shift += 7) {
+      const b = this.varintByte()
+      value |= BigInt(b & 0x7F) << BigInt(shift)
+      if ((b & 0x80) === 0) {
+        return BigInt.asIntN(64, (value >> BigInt(1)) ^ -(value & BigInt(1)))
+      }
+    }
+    throw this.error('Varlong is too long')
+  }
+
+  private varintByte() {
+    if (this.offset >= this.arrayView.length) {
+      throw this.error('Unexpected end of varint')
+    }
+    return this.arrayView[this.offset++]
+  }
+
+  private typedArray(length: number, width: number) {
+    const size = length * width
+    const bytes = this.arrayView.slice(this.offset, this.offset + size)
+    this.offset += size
+    if (width > 1 && this.littleEndian !== platformLittleEndian) {
+      swapEndianness(bytes, width)
+    }
+    return bytes.buffer
   }
 
   byteArray(): NbtValues['byteArray'] {
-    const length = this.int()
+    const length = this.length(1)
+    if (this.typedArrays) {
+      return new Int8Array(this.typedArray(length, 1))
+    }
     const values = []
     for (let i = 0; i < length; i++) {
       values.push(this.byte())
@@ -44,7 +175,17 @@ export class NbtReader {
   }
 
   intArray(): NbtValues['intArray'] {
-    const length = this.int()
+    const length = this.length(this.varint ? 1 : 4)
+    if (this.typedArrays) {
+      if (this.varint) {
+        const values = new Int32Array(length)
+        for (let i = 0; i < length; i++) {
+          values[i] = this.int()
+        }
+        return values
+      }
+      return new Int32Array(this.typedArray(length, 4))
+    }
     const values = []
     for (let i = 0; i < length; i++) {
       values.push(this.int())
@@ -53,42 +194,93 @@ export class NbtReader {
   }
 
   longArray(): NbtValues['longArray'] {
-    const length = this.int()
-    const values = []
+    const length = this.length(this.varint ? 1 : 8)
+    if (this.typedArrays && !this.varint) {
+      return new BigInt64Array(this.typedArray(length, 8))
+    }
+    if (this.typedArrays || this.bigint) {
+      const values = new BigInt64Array(length)
+      for (let i = 0; i < length; i++) {
+        values[i] = this.bigInt64()
+      }
+      return values
+    }
+    const values: [number, number][] = []
     for (let i = 0; i < length; i++) {
-      values.push(this.long())
+      values.push(this.longPair())
     }
     return values
   }
 
   string(): NbtValues['string'] {
-		const length = this.short()
-		const slice = this.arrayView.slice(this.offset,	this.offset + length)
-		this.offset += length
-		return decodeUTF8(slice)
+    const start = this.offset
+    const length = this.varint ? this.varUint() : this.unsignedShort()
+    if (length > this.maxArrayLength) {
+      throw this.error(`Length ${length} exceeds the limit of ${this.maxArrayLength}`, start)
+    }
+    this.need(length)
+    const slice = this.arrayView.subarray(this.offset, this.offset + length)
+    this.offset += length
+    return this.utf8 ? decodeUTF8(slice) : decodeModifiedUTF8(slice)
   }
 
   list(): NbtValues['list'] {
-    const type = tagNames[this.byte()]
-    const length = this.int()
+    const type = this.tagType()
+    const length = this.length(this.minimumSize(type))
+    if (type === 'end' && length > 0) {
+      throw this.error(`Missing type on list of length ${length}`)
+    }
+    this.enter()
     const values = []
     for (let i = 0; i < length; i++) {
+      this.path.push(i)
       values.push(this[type]())
+      this.path.pop()
     }
+    this.depth -= 1
     return { type, value: values } as NbtValues['list']
   }
 
   compound(): NbtValues['compound'] {
+    this.enter()
     const values: { [key: string]: NbtTag } = {}
     while (true) {
-      const type = tagNames[this.byte()]
+      const type = this.tagType()
       if (type === 'end') {
         break
       }
       const name = this.string()
+      this.path.push(name)
       const value = this[type]()
+      this.path.pop()
       values[name] = { type, value } as NbtTag
     }
+    this.depth -= 1
     return values
   }
+
+  private enter() {
+    this.depth += 1
+    if (this.depth > this.maxDepth) {
+      throw this.error(`Exceeded the maximum depth of ${this.maxDepth}`)
+    }
+  }
+
+  private minimumSize(type: keyof NbtValues) {
+    switch (type) {
+      case 'end': return 0
+      case 'byte':
+      case 'compound': return 1
+      case 'short': return 2
+      case 'string': return this.varint ? 1 : 2
+      case 'float': return 4
+      case 'double': return 8
+      case 'int':
+      case 'byteArray':
+      case 'intArray':
+      case 'longArray': return this.varint ? 1 : 4
+      case 'long': return this.varint ? 1 : 8
+      case 'list': return this.varint ? 2 : 5
+    }
+  }
 }
@@ -0,0 +1,283 @@
+import { compressChunk, compressionTypes, decompressChunk } from './Compression'
+import { NamedNbtTag, NbtChunk, NbtReadOptions, readUncompressed, writeUncompressed } from './Nbt'
+
+const SECTOR_SIZE = 4096
+const HEADER_SECTORS = 2
+const MAX_CHUNK_SECTORS = 255
+const EXTERNAL_FLAG = 128
+
+export interface RegionFileAccessor {
+  read(name: string): Uint8Array | undefined
+  write(name: string, data: Uint8Array): void
+  delete(name: string): void
+}
+
+export type RegionFileOptions = {
+  /** Region coordinates, used to name external chunk files */
+  x?: number
+  z?: number
+  /** Accessor for oversized chunks stored in separate `.mcc` files */
+  external?: RegionFileAccessor
+}
+
+export type RegionChunkOptions = {
+  compression?: number
+  timestamp?: number
+}
+
+export type RegionStatistics = {
+  chunkCount: number
+  externalChunkCount: number
+  sectorCount: number
+  usedSectorCount: number
+  freeSectorCount: number
+  freeRegionCount: number
+  largestFreeRegion: number
+  fragmentation: number
+}
+
+export class RegionFile {
+  private array: Uint8Array
+  private dataView: DataView
+  private used: boolean[]
+
+  constructor(
+    array?: Uint8Array,
+    private options: RegionFileOptions = {}
+  ) {
+    const sectors = Math.max(HEADER_SECTORS, Math.ceil((array?.length ?? 0) / SECTOR_SIZE))
+    this.array = new Uint8Array(sectors * SECTOR_SIZE)
+    if (array) {
+      this.array.set(array)
+    }
+    this.dataView = new DataView(this.array.buffer)
+    this.used = Array(sectors).fill(false)
+    this.markUsed(0, HEADER_SECTORS)
+
+    for (let i = 0; i < 1024; i += 1) {
+      const location = this.dataView.getUint32(i * 4)
+      if (location === 0) continue
+      const offset = location >>> 8
+      const count = location & 0xff
+      if (offset < HEADER_SECTORS || count === 0 || offset + count > sectors
+          || this.used.slice(offset, offset + count).some(u => u)) {
+        this.dataView.setUint32(i * 4, 0)
+        continue
+      }
+      this.markUsed(offset, count)
+    }
+  }
+
+  public hasChunk(x: number, z: number) {
+    return this.dataView.getUint32(index(x, z) * 4) !== 0
+  }
+
+  public getChunkPositions() {
+    const positions: [number, number][] = []
+    for (let z = 0; z < 32; z += 1) {
+      for (let x = 0; x < 32; x += 1) {
+        if (this.hasChunk(x, z)) {
+          positions.push([(this.options.x ?? 0) * 32 + x, (this.options.z ?? 0) * 32 + z])
+        }
+      }
+    }
+    return positions
+  }
+
+  public getTimestamp(x: number, z: number) {
+    return this.dataView.getUint32(SECTOR_SIZE + index(x, z) * 4)
+  }
+
+  public getChunk(x: number, z: number): NbtChunk | undefined {
+    const location = this.dataView.getUint32(index(x, z) * 4)
+    if (location === 0) {
+      return undefined
+    }
+    const start = (location >>> 8) * SECTOR_SIZE
+    const length = this.dataView.getUint32(start)
+    if (length === 0 || length > (location & 0xff) * SECTOR_SIZE - 4) {
+      throw new Error(`Chunk [${x}, ${z}] has an invalid length of ${length}`)
+    }
+    const timestamp = this.getTimestamp(x, z)
+    const compression = this.array[start + 4]
+    if (compression & EXTERNAL_FLAG) {
+      const data = this.options.external?.read(this.externalName(x, z))
+      if (data === undefined) {
+        throw new Error(`Missing external chunk file ${this.externalName(x, z)}`)
+      }
+      return { x, z, timestamp, compression: compression & ~EXTERNAL_FLAG, data }
+    }
+    const data = this.array.slice(start + 5, start + 4 + length)
+    return { x, z, timestamp, compression, data }
+  }
+
+  public readChunk(x: number, z: number, options?: NbtReadOptions): NamedNbtTag | undefined {
+    const chunk = this.getChunk(x, z)
+    if (chunk === undefined) {
+      return undefined
+    }
+    return readUncompressed(decompressChunk(chunk.compression, chunk.data), false, options)
+  }
+
+  public writeChunk(x: number, z: number, nbt: NamedNbtTag, options: RegionChunkOptions = {}) {
+    const compression = options.compression ?? compressionTypes.zlib
+    const data = compressChunk(compression, writeUncompressed(nbt))
+    this.setChunk({ x, z, compression, data, timestamp: options.timestamp ?? currentTimestamp() })
+  }
+
+  public setChunk(chunk: NbtChunk) {
+    const i = index(chunk.x, chunk.z)
+    let sectors = Math.ceil((chunk.data.length + 5) / SECTOR_SIZE)
+    const external = sectors > MAX_CHUNK_SECTORS
+    if (external) {
+      if (!this.options.external) {
+        throw new Error(`Chunk [${chunk.x}, ${chunk.z}] needs ${sectors} sectors, but no external file accessor was given`)
+      }
+      this.options.external.write(this.externalName(chunk.x, chunk.z), chunk.data)
+      sectors = 1
+    }
+    // The old chunk is only removed once the new data is safely written
+    this.free(chunk.x, chunk.z, !external)
+
+    const offset = this.allocate(sectors)
+    const start = offset * SECTOR_SIZE
+    this.array.fill(0, start, start + sectors * SECTOR_SIZE)
+    if (external) {
+      this.dataView.setUint32(start, 1)
+      this.array[start + 4] = chunk.compression | EXTERNAL_FLAG
+    } else {
+      this.dataView.setUint32(start, chunk.data.length + 1)
+      this.array[start + 4] = chunk.compression
+      this.array.set(chunk.data, start + 5)
+    }
+    this.dataView.setUint32(i * 4, offset * 256 + sectors)
+    this.dataView.setUint32(SECTOR_SIZE + i * 4, chunk.timestamp)
+  }
+
+  public deleteChunk(x: number, z: number) {
+    const existed = this.hasChunk(x, z)
+    this.free(x, z)
+    return existed
+  }
+
+  public getStatistics(): RegionStatistics {
+    let chunkCount = 0
+    let externalChunkCount = 0
+    for (let i = 0; i < 1024; i += 1) {
+      const location = this.dataView.getUint32(i * 4)
+      if (location === 0) continue
+      chunkCount += 1
+      if (this.array[(location >>> 8) * SECTOR_SIZE + 4] & EXTERNAL_FLAG) {
+        externalChunkCount += 1
+      }
+    }
+
+    const sectorCount = this.getSectorCount()
+    let usedSectorCount = 0
+    let freeRegionCount = 0
+    let largestFreeRegion = 0
+    let run = 0
+    for (let i = 0; i < sectorCount; i += 1) {
+      if (this.used[i]) {
+        usedSectorCount += 1
+        run = 0
+      } else {
+        if (run === 0) freeRegionCount += 1
+        run += 1
+        largestFreeRegion = Math.max(largestFreeRegion, run)
+      }
+    }
+    const freeSectorCount = sectorCount - usedSectorCount
+    const dataSectors = sectorCount - HEADER_SECTORS
+
+    return {
+      chunkCount,
+      externalChunkCount,
+      sectorCount,
+      usedSectorCount,
+      freeSectorCount,
+      freeRegionCount,
+      largestFreeRegion,
+      fragmentation: dataSectors > 0 ? freeSectorCount / dataSectors : 0
+    }
+  }
+
+  public getData() {
+    return this.array.slice(0, this.getSectorCount() * SECTOR_SIZE)
+  }
+
+  private getSectorCount() {
+    let count = this.used.length
+    while (count > HEADER_SECTORS && !this.used[count - 1]) {
+      count -= 1
+    }
+    return count
+  }
+
+  private free(x: number, z: number, deleteExternal = true) {
+    const i = index(x, z)
+    const location = this.dataView.getUint32(i * 4)
+    if (location === 0) {
+      return
+    }
+    const offset = location >>> 8
+    if (deleteExternal && this.array[offset * SECTOR_SIZE + 4] & EXTERNAL_FLAG) {
+      this.options.external?.delete(this.externalName(x, z))
+    }
+    for (let j = offset; j < offset + (location & 0xff); j += 1) {
+      this.used[j] = false
+    }
+    this.dataView.setUint32(i * 4, 0)
+    this.dataView.setUint32(SECTOR_SIZE + i * 4, 0)
+  }
+
+  private allocate(count: number) {
+    let run = 0
+    let offset = HEADER_SECTORS
+    for (let i = HEADER_SECTORS; run < count; i += 1) {
+      if (i < this.used.length && this.used[i]) {
+        run = 0
+        offset = i + 1
+      } else {
+        run += 1
+      }
+    }
+
+    const requiredSectors = offset + count
+    if (requiredSectors > this.used.length) {
+      let newLength = this.array.length
+      while (newLength < requiredSectors * SECTOR_SIZE) {
+        newLength *= 2
+      }
+      const newArray = new Uint8Array(newLength)
+      newArray.set(this.array)
+      this.array = newArray
+      this.dataView = new DataView(newArray.buffer)
+      while (this.used.length < newLength / SECTOR_SIZE) {
+        this.used.push(false)
+      }
+    }
+    this.markUsed(offset, count)
+    return offset
+  }
+
+  private markUsed(offset: number, count: number) {
+    for (let i = offset; i < offset + count; i += 1) {
+      this.used[i] = true
+    }
+  }
+
+  private externalName(x: number, z: number) {
+    const chunkX = (this.options.x ?? 0) * 32 + (x & 31)
+    const chunkZ = (this.options.z ?? 0) * 32 + (z & 31)
+    return `c.${chunkX}.${chunkZ}.mcc`
+  }
+}
+
+function index(x: number, z: number) {
+  return (x & 31) + (z & 31) * 32
+}
+
+function currentTimestamp() {
+  return Math.floor(Date.now() / 1000)
+}
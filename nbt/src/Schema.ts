@@ -0,0 +1,188 @@
+import { NbtTag, NbtValues } from './Nbt'
+import { NbtTagPath, stringifyNbtTagPath } from './TagPath'
+
+export type NbtSchema = {
+  type: keyof NbtValues
+  /** Whether the tag may be missing from its parent compound */
+  optional?: boolean
+  /** Allowed values of a string or number tag */
+  enum?: (string | number)[]
+  /** Schema of each list element */
+  items?: NbtSchema
+  /** Exact number of elements in a list or array */
+  length?: number
+  /** Known keys of a compound */
+  fields?: { [key: string]: NbtSchema }
+  /** Schema of keys not listed in `fields`; unknown keys are allowed by default and rejected with `false` */
+  additionalFields?: NbtSchema | boolean
+}
+
+export type NbtSchemaViolation = {
+  path: string
+  message: string
+}
+
+export class NbtSchemaError extends Error {
+  constructor(
+    public readonly violations: NbtSchemaViolation[]
+  ) {
+    super(violations.map(v => `${v.path || 'root'}: ${v.message}`).join('\n'))
+    this.name = 'NbtSchemaError'
+  }
+}
+
+export function validateNbt(tag: NbtTag, schema: NbtSchema): NbtSchemaViolation[] {
+  const violations: NbtSchemaViolation[] = []
+  validateTag(tag, schema, [], violations)
+  return violations
+}
+
+export function assertNbt(tag: NbtTag, schema: NbtSchema) {
+  const violations = validateNbt(tag, schema)
+  if (violations.length > 0) {
+    throw new NbtSchemaError(violations)
+  }
+}
+
+function validateTag(tag: NbtTag, schema: NbtSchema, path: NbtTagPath, violations: NbtSchemaViolation[]) {
+  const report = (message: string) => violations.push({ path: stringifyNbtTagPath(path), message })
+  if (tag.type !== schema.type) {
+    report(`Expected ${schema.type}, but found ${tag.type}`)
+    return
+  }
+  if (schema.enum && !schema.enum.includes(tag.value as string | number)) {
+    report(`Expected one of ${schema.enum.map(v => JSON.stringify(v)).join(', ')}, but found ${JSON.stringify(tag.value)}`)
+  }
+  switch (tag.type) {
+    case 'compound': {
+      const fields = schema.fields ?? {}
+      Object.keys(fields).forEach(key => {
+        if (tag.value[key] !== undefined) {
+          validateTag(tag.value[key], fields[key], [...path, key], violations)
+        } else if (!fields[key].optional) {
+          violations.push({ path: stringifyNbtTagPath([...path, key]), message: `Missing required ${fields[key].type}` })
+        }
+      })
+      const additional = schema.additionalFields ?? true
+      if (additional === true) break
+      Object.keys(tag.value).forEach(key => {
+        if (fields[key] !== undefined) return
+        if (additional === false) {
+          violations.push({ path: stringifyNbtTagPath([...path, key]), message: 'Unexpected tag' })
+        } else {
+          validateTag(tag.value[key], additional, [...path, key], violations)
+        }
+      })
+      break
+    }
+    case 'list': {
+      const values = tag.value.value as any[]
+      if (schema.length !== undefined && values.length !== schema.length) {
+        report(`Expected a list of length ${schema.length}, but found length ${values.length}`)
+      }
+      const items = schema.items
+      if (items === undefined || values.length === 0) break
+      if (tag.value.type !== items.type) {
+        report(`Expected a list of ${items.type}s, but found ${tag.value.type}s`)
+        break
+      }
+      values.forEach((v, i) => {
+        validateTag({ type: items.type, value: v } as NbtTag, items, [...path, i], violations)
+      })
+      break
+    }
+    case 'byteArray':
+    case 'intArray':
+    case 'longArray':
+      if (schema.length !== undefined && tag.value.length !== schema.length) {
+        report(`Expected an array of length ${schema.length}, but found length ${tag.value.length}`)
+      }
+      break
+  }
+}
+
+const intTriple: NbtSchema = { type: 'list', items: { type: 'int' }, length: 3 }
+const doubleTriple: NbtSchema = { type: 'list', items: { type: 'double' }, length: 3 }
+
+export const blockStateSchema: NbtSchema = {
+  type: 'compound',
+  fields: {
+    Name: { type: 'string' },
+    Properties: { type: 'compound', optional: true, additionalFields: { type: 'string' } },
+  },
+}
+
+export const itemSchema: NbtSchema = {
+  type: 'compound',
+  fields: {
+    id: { type: 'string' },
+    Count: { type: 'byte' },
+    Slot: { type: 'byte', optional: true },
+    tag: { type: 'compound', optional: true },
+  },
+}
+
+export const blockEntitySchema: NbtSchema = {
+  type: 'compound',
+  fields: {
+    id: { type: 'string', optional: true },
+    x: { type: 'int', optional: true },
+    y: { type: 'int', optional: true },
+    z: { type: 'int', optional: true },
+    CustomName: { type: 'string', optional: true },
+    Lock: { type: 'string', optional: true },
+    Items: { type: 'list', optional: true, items: itemSchema },
+  },
+}
+
+export const structureBlockSchema: NbtSchema = {
+  type: 'compound',
+  fields: {
+    ...blockEntitySchema.fields,
+    name: { type: 'string' },
+    author: { type: 'string', optional: true },
+    metadata: { type: 'string', optional: true },
+    posX: { type: 'int' },
+    posY: { type: 'int' },
+    posZ: { type: 'int' },
+    sizeX: { type: 'int' },
+    sizeY: { type: 'int' },
+    sizeZ: { type: 'int' },
+    rotation: { type: 'string', enum: ['NONE', 'CLOCKWISE_90', 'CLOCKWISE_180', 'COUNTERCLOCKWISE_90'] },
+    mirror: { type: 'string', enum: ['NONE', 'LEFT_RIGHT', 'FRONT_BACK'] },
+    mode: { type: 'string', enum: ['SAVE', 'LOAD', 'CORNER', 'DATA'] },
+    ignoreEntities: { type: 'byte', enum: [0, 1] },
+    powered: { type: 'byte', enum: [0, 1] },
+    showair: { type: 'byte', enum: [0, 1] },
+    showboundingbox: { type: 'byte', enum: [0, 1] },
+    integrity: { type: 'float' },
+    seed: { type: 'long' },
+  },
+}
+
+export const structureSchema: NbtSchema = {
+  type: 'compound',
+  fields: {
+    DataVersion: { type: 'int', optional: true },
+    author: { type: 'string', optional: true },
+    size: intTriple,
+    palette: { type: 'list', optional: true, items: blockStateSchema },
+    palettes: { type: 'list', optional: true, items: { type: 'list', items: blockStateSchema } },
+    blocks: { type: 'list', items: {
+      type: 'compound',
+      fields: {
+        pos: intTriple,
+        state: { type: 'int' },
+        nbt: { ...blockEntitySchema, optional: true },
+      },
+    } },
+    entities: { type: 'list', optional: true, items: {
+      type: 'compound',
+      fields: {
+        pos: doubleTriple,
+        blockPos: intTriple,
+        nbt: { type: 'compound' },
+      },
+    } },
+  },
+}
@@ -0,0 +1,99 @@
+import { NbtTag, NbtValues } from './Nbt'
+import { SnbtParser, unquotedPattern } from './SnbtParser'
+import { longArrayToBigInt, longToBigInt } from './TagUtils'
+
+export { SnbtParseError } from './SnbtParser'
+
+export type SnbtOptions = {
+  indent?: number | string
+}
+
+export function parseSnbt(text: string): NbtTag {
+  const parser = new SnbtParser(text)
+  parser.skipWhitespace()
+  const tag = parser.tag()
+  parser.skipWhitespace()
+  if (parser.canRead()) {
+    throw parser.error('Trailing data after value')
+  }
+  return tag
+}
+
+export function stringifySnbt(tag: NbtTag, options: SnbtOptions = {}): string {
+  const indent = typeof options.indent === 'number'
+    ? ' '.repeat(options.indent)
+    : (options.indent ?? '')
+  return stringifyValue(tag, indent, '')
+}
+
+function stringifyValue(tag: NbtTag, indent: string, prefix: string): string {
+  const inner = prefix + indent
+  const newline = indent ? '\n' : ''
+  const colon = indent ? ': ' : ':'
+  switch (tag.type) {
+    case 'end': throw new Error('Cannot stringify end tag')
+    case 'byte': return `${tag.value}b`
+    case 'short': return `${tag.value}s`
+    case 'int': return `${tag.value}`
+    case 'long': return `${longToBigInt(tag.value)}L`
+    case 'float': return `${stringifyFloat(checkFinite(tag))}f`
+    case 'double': return `${checkFinite(tag)}d`
+    case 'string': return quoteString(tag.value)
+    case 'byteArray': return stringifyArray('B', Array.from(tag.value, v => `${v}b`), indent)
+    case 'intArray': return stringifyArray('I', Array.from(tag.value, v => `${v}`), indent)
+    case 'longArray': return stringifyArray('L', Array.from(longArrayToBigInt(tag.value), v => `${v}L`), indent)
+    case 'list': {
+      if (tag.value.value.length === 0) return '[]'
+      const type = tag.value.type
+      const items = (tag.value.value as NbtValues[keyof NbtValues][])
+        .map(v => inner + stringifyValue({ type, value: v } as NbtTag, indent, inner))
+      return `[${newline}${items.join(`,${newline}`)}${newline}${prefix}]`
+    }
+    case 'compound': {
+      const compound = tag.value
+      const keys = Object.keys(compound)
+      if (keys.length === 0) return '{}'
+      const entries = keys
+        .map(k => inner + quoteKey(k) + colon + stringifyValue(compound[k], indent, inner))
+      return `{${newline}${entries.join(`,${newline}`)}${newline}${prefix}}`
+    }
+  }
+}
+
+function stringifyArray(prefix: string, items: string[], indent: string) {
+  const separator = indent ? ', ' : ','
+  return `[${prefix};${indent && items.length > 0 ? ' ' : ''}${items.join(separator)}]`
+}
+
+/** SNBT has no syntax for NaN or infinite numbers */
+function checkFinite(tag: NbtTag & { type: 'float' | 'double' }) {
+  if (!isFinite(tag.value)) {
+    throw new Error(`Cannot stringify non-finite ${tag.type} ${tag.value}`)
+  }
+  return tag.value
+}
+
+function stringifyFloat(value: number) {
+  for (let precision = 1; precision < 9; precision += 1) {
+    const shortened = Number(value.toPrecision(precision))
+    if (Math.fround(shortened) === value) {
+      return `${shortened}`
+    }
+  }
+  return `${value}`
+}
+
+function quoteKey(key: string) {
+  return unquotedPattern.test(key) ? key : quoteString(key)
+}
+
+function quoteString(value: string) {
+  const quote = value.includes('"') && !value.includes('\'') ? '\'' : '"'
+  const escaped = value
+    .replace(/\\/g, '\\\\')
+    .replace(new RegExp(quote, 'g'), '\\' + quote)
+    .replace(/\n/g, '\\n')
+    .replace(/\r/g, '\\r')
+    .replace(/\t/g, '\\t')
+  return quote + escaped + quote
+}
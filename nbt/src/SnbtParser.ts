@@ -0,0 +1,266 @@
+import { NbtTag, NbtValues } from './Nbt'
+import { longToPair } from './TagUtils'
+
+export class SnbtParseError extends Error {
+  constructor(
+    /** The message without its location */
+    public readonly reason: string,
+    public readonly offset: number,
+    public readonly line: number,
+    public readonly column: number
+  ) {
+    super(`${reason} at line ${line}, column ${column}`)
+    this.name = 'SnbtParseError'
+  }
+}
+
+export const unquotedPattern = /^[0-9A-Za-z_\-.+]+$/
+const bytePattern = /^[-+]?(?:0|[1-9][0-9]*)b$/i
+const shortPattern = /^[-+]?(?:0|[1-9][0-9]*)s$/i
+const intPattern = /^[-+]?(?:0|[1-9][0-9]*)$/
+const longPattern = /^[-+]?(?:0|[1-9][0-9]*)l$/i
+const floatPattern = /^[-+]?(?:[0-9]+[.]?|[0-9]*[.][0-9]+)(?:e[-+]?[0-9]+)?f$/i
+const doublePattern = /^[-+]?(?:[0-9]+[.]?|[0-9]*[.][0-9]+)(?:e[-+]?[0-9]+)?d$/i
+const doubleNoSuffixPattern = /^[-+]?(?:[0-9]+[.]|[0-9]*[.][0-9]+)(?:e[-+]?[0-9]+)?$/i
+
+const arrayTypes = {
+  'B': 'byteArray',
+  'I': 'intArray',
+  'L': 'longArray'
+} as const
+
+const arrayElements = {
+  'byteArray': 'byte',
+  'intArray': 'int',
+  'longArray': 'long'
+} as const
+
+const escapes: { [key: string]: string } = {
+  '\\': '\\',
+  '"': '"',
+  '\'': '\'',
+  'b': '\b',
+  'f': '\f',
+  'n': '\n',
+  'r': '\r',
+  't': '\t'
+}
+
+export class SnbtParser {
+  public cursor = 0
+
+  constructor(private text: string) {}
+
+  canRead(length = 1) {
+    return this.cursor + length <= this.text.length
+  }
+
+  peek(offset = 0) {
+    return this.text.charAt(this.cursor + offset)
+  }
+
+  skipWhitespace() {
+    while (this.canRead() && /\s/.test(this.peek())) {
+      this.cursor += 1
+    }
+  }
+
+  expect(char: string) {
+    this.skipWhitespace()
+    if (this.peek() !== char) {
+      throw this.error(`Expected '${char}'`)
+    }
+    this.cursor += 1
+  }
+
+  error(message: string, offset = this.cursor) {
+    const before = this.text.slice(0, offset).split(/\r\n|\r|\n/)
+    const line = before.length
+    const column = before[before.length - 1].length + 1
+    return new SnbtParseError(message, offset, line, column)
+  }
+
+  tag(): NbtTag {
+    this.skipWhitespace()
+    switch (this.peek()) {
+      case '{': return { type: 'compound', value: this.compound() }
+      case '[':
+        if (this.peek(2) === ';' && this.peek(1) in arrayTypes) {
+          return this.array()
+        }
+        return { type: 'list', value: this.list() }
+      default: return this.primitive()
+    }
+  }
+
+  compound(): NbtValues['compound'] {
+    this.expect('{')
+    const values: NbtValues['compound'] = {}
+    this.skipWhitespace()
+    while (this.canRead() && this.peek() !== '}') {
+      const key = this.key()
+      this.expect(':')
+      values[key] = this.tag()
+      if (!this.separator()) {
+        break
+      }
+    }
+    this.expect('}')
+    return values
+  }
+
+  list(): NbtValues['list'] {
+    this.expect('[')
+    const values: any[] = []
+    let type: keyof NbtValues = 'end'
+    this.skipWhitespace()
+    while (this.canRead() && this.peek() !== ']') {
+      const start = this.cursor
+      const tag = this.tag()
+      if (type === 'end') {
+        type = tag.type
+      } else if (tag.type !== type) {
+        throw this.error(`Cannot insert ${tag.type} into list of ${type}`, start)
+      }
+      values.push(tag.value)
+      if (!this.separator()) {
+        break
+      }
+    }
+    this.expect(']')
+    return { type, value: values } as NbtValues['list']
+  }
+
+  array(): NbtTag {
+    this.expect('[')
+    const type = arrayTypes[this.peek() as keyof typeof arrayTypes]
+    const elementType = arrayElements[type]
+    this.cursor += 2
+    const values: any[] = []
+    this.skipWhitespace()
+    while (this.canRead() && this.peek() !== ']') {
+      const start = this.cursor
+      const tag = this.tag()
+      if (tag.type === elementType) {
+        values.push(tag.value)
+      } else if (tag.type === 'int' && elementType === 'byte') {
+        values.push(checkRange(this, tag.value, 8, start))
+      } else if (tag.type === 'int' && elementType === 'long') {
+        values.push([tag.value < 0 ? -1 : 0, tag.value])
+      } else {
+        throw this.error(`Cannot insert ${tag.type} into ${type}`, start)
+      }
+      if (!this.separator()) {
+        break
+      }
+    }
+    this.expect(']')
+    return { type, value: values } as NbtTag
+  }
+
+  separator() {
+    this.skipWhitespace()
+    if (this.peek() === ',') {
+      this.cursor += 1
+      this.skipWhitespace()
+      return true
+    }
+    return false
+  }
+
+  key() {
+    this.skipWhitespace()
+    if (this.peek() === '"' || this.peek() === '\'') {
+      return this.quoted()
+    }
+    const start = this.cursor
+    const key = this.unquoted()
+    if (key === '') {
+      throw this.error('Expected key', start)
+    }
+    return key
+  }
+
+  primitive(): NbtTag {
+    const start = this.cursor
+    if (this.peek() === '"' || this.peek() === '\'') {
+      return { type: 'string', value: this.quoted() }
+    }
+    const value = this.unquoted()
+    if (value === '') {
+      throw this.error('Expected value', start)
+    }
+    return inferType(value)
+  }
+
+  quoted() {
+    const start = this.cursor
+    const quote = this.peek()
+    this.cursor += 1
+    let result = ''
+    while (this.canRead()) {
+      const char = this.peek()
+      this.cursor += 1
+      if (char === quote) {
+        return result
+      } else if (char === '\\') {
+        const escape = this.peek()
+        if (escape === 'u' && /^[0-9a-fA-F]{4}$/.test(this.text.substr(this.cursor + 1, 4))) {
+          result += String.fromCharCode(parseInt(this.text.substr(this.cursor + 1, 4), 16))
+          this.cursor += 5
+        } else if (escape in escapes) {
+          result += escapes[escape]
+          this.cursor += 1
+        } else {
+          throw this.error(`Invalid escape sequence '\\${escape}'`, this.cursor - 1)
+        }
+      } else {
+        result += char
+      }
+    }
+    throw this.error('Unclosed quoted string', start)
+  }
+
+  unquoted() {
+    const start = this.cursor
+    while (this.canRead() && unquotedPattern.test(this.peek())) {
+      this.cursor += 1
+    }
+    return this.text.slice(start, this.cursor)
+  }
+}
+
+function checkRange(parser: SnbtParser, value: number, bits: number, offset: number) {
+  const limit = Math.pow(2, bits - 1)
+  if (value < -limit || value >= limit) {
+    throw parser.error(`Value ${value} is out of range`, offset)
+  }
+  return value
+}
+
+function inferType(value: string): NbtTag {
+  if (bytePattern.test(value)) {
+    const n = parseInt(value.slice(0, -1))
+    if (n >= -128 && n <= 127) return { type: 'byte', value: n }
+  } else if (shortPattern.test(value)) {
+    const n = parseInt(value.slice(0, -1))
+    if (n >= -32768 && n <= 32767) return { type: 'short', value: n }
+  } else if (intPattern.test(value)) {
+    const n = parseInt(value)
+    if (n >= -2147483648 && n <= 2147483647) return { type: 'int', value: n }
+  } else if (longPattern.test(value)) {
+    const n = BigInt(value.slice(0, -1).replace(/^\+/, ''))
+    if (BigInt.asIntN(64, n) === n) return { type: 'long', value: longToPair(n) }
+  } else if (floatPattern.test(value)) {
+    return { type: 'float', value: Math.fround(parseFloat(value.slice(0, -1))) }
+  } else if (doublePattern.test(value)) {
+    return { type: 'double', value: parseFloat(value.slice(0, -1)) }
+  } else if (doubleNoSuffixPattern.test(value)) {
+    return { type: 'double', value: parseFloat(value) }
+  } else if (value.toLowerCase() === 'true') {
+    return { type: 'byte', value: 1 }
+  } else if (value.toLowerCase() === 'false') {
+    return { type: 'byte', value: 0 }
+  }
+  return { type: 'string', value }
+}
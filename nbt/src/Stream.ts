@@ -0,0 +1,416 @@
+import pako from 'pako'
+import { NbtParseError, NbtReadOptions, NbtTag, NbtValues, tagNames, tagTypes } from './Nbt'
+import { NbtTagPath, stringifyNbtTagPath } from './TagPath'
+import { NbtReader } from './Reader'
+import { hasGzipHeader } from './Utils'
+
+/**
+ * Returned from `key` or `element` to skip the value without reporting it,
+ * or to collect the whole value into a single `value` event.
+ */
+export type NbtStreamAction = 'skip' | 'value'
+
+/**
+ * Callbacks for a streaming read. The `path` array is reused between events,
+ * so copy it when keeping it around.
+ */
+export interface NbtStreamHandler {
+  start?(name: string): void
+  key?(name: string, type: keyof NbtValues, path: NbtTagPath): NbtStreamAction | void
+  element?(index: number, type: keyof NbtValues, path: NbtTagPath): NbtStreamAction | void
+  value?(tag: NbtTag, path: NbtTagPath): void
+  startCompound?(path: NbtTagPath): void
+  endCompound?(path: NbtTagPath): void
+  startList?(type: keyof NbtValues, length: number, path: NbtTagPath): void
+  endList?(path: NbtTagPath): void
+  end?(): void
+}
+
+/** Varint streams, as in Bedrock's network format, aren't supported */
+export type NbtStreamOptions = Omit<NbtReadOptions, 'varint'> & {
+  /** Whether the stream is gzip compressed, detected from the first bytes by default */
+  compressed?: boolean
+  littleEndian?: boolean
+}
+
+type Mode = 'stream' | 'skip' | 'build'
+
+type Frame =
+  | { kind: 'compound', mode: Mode, value: NbtValues['compound'], key?: string }
+  | { kind: 'list', mode: Mode, type: keyof NbtValues, length: number, index: number, value: any[] }
+
+const fixedSizes: { [type: string]: number } = {
+  byte: 1,
+  short: 2,
+  int: 4,
+  long: 8,
+  float: 4,
+  double: 8,
+}
+
+const arrayWidths: { [type: string]: number } = {
+  byteArray: 1,
+  intArray: 4,
+  longArray: 8,
+}
+
+export class NbtStreamReader {
+  private queue = new ByteQueue()
+  private header: Uint8Array | undefined = new Uint8Array(0)
+  private inflator: pako.Inflate | undefined
+  private started = false
+  private done = false
+  private frames: Frame[] = []
+  private pending: { type: keyof NbtValues, mode: Mode } | undefined
+  private skipRemaining = 0
+  private path: NbtTagPath = []
+  private maxDepth: number
+  private readOptions: NbtReadOptions
+  private reader: NbtReader | undefined
+  private readerBuffer: ArrayBufferLike | undefined
+
+  constructor(
+    private handler: NbtStreamHandler,
+    private options: NbtStreamOptions = {}
+  ) {
+    this.maxDepth = options.maxDepth ?? 512
+    this.readOptions = { bigint: options.bigint, typedArrays: options.typedArrays, maxArrayLength: options.maxArrayLength, stringEncoding: options.stringEncoding }
+  }
+
+  public push(chunk: Uint8Array) {
+    if (this.header) {
+      const header = new Uint8Array(this.header.length + chunk.length)
+      header.set(this.header)
+      header.set(chunk, this.header.length)
+      if (this.options.compressed === undefined && header.length < 2) {
+        this.header = header
+        return
+      }
+      this.header = undefined
+      if (this.options.compressed ?? hasGzipHeader(header)) {
+        this.inflator = new pako.Inflate()
+        this.inflator.onData = data => this.feed(data as Uint8Array)
+      }
+      chunk = header
+    }
+    if (this.inflator) {
+      this.inflator.push(chunk, false)
+      if (this.inflator.err) {
+        throw new Error(this.inflator.msg)
+      }
+    } else {
+      this.feed(chunk)
+    }
+  }
+
+  public end() {
+    if (this.header && this.header.length > 0) {
+      const header = this.header
+      this.header = undefined
+      this.feed(header)
+    }
+    if (this.inflator) {
+      this.inflator.push(new Uint8Array(0), true)
+      if (this.inflator.err) {
+        throw new Error(this.inflator.msg)
+      }
+    }
+    if (!this.done) {
+      throw this.error('Unexpected end of stream')
+    }
+  }
+
+  private feed(data: Uint8Array) {
+    if (this.done) {
+      return
+    }
+    this.queue.push(data)
+    if (this.options.maxBytes !== undefined && this.queue.total > this.options.maxBytes) {
+      throw this.error(`Data exceeds the limit of ${this.options.maxBytes} bytes`)
+    }
+    while (!this.done && this.step()) {}
+  }
+
+  private error(message: string) {
+    return new NbtParseError(message, this.queue.consumed, stringifyNbtTagPath(this.path))
+  }
+
+  private step(): boolean {
+    if (this.skipRemaining > 0) {
+      this.skipRemaining -= this.queue.skip(this.skipRemaining)
+      if (this.skipRemaining > 0) {
+        return false
+      }
+      this.finishValue()
+      return true
+    }
+    if (!this.started) {
+      return this.readHeader()
+    }
+    if (this.pending) {
+      return this.readValue(this.pending.type, this.pending.mode)
+    }
+    const frame = this.frames[this.frames.length - 1]
+    return frame.kind === 'compound' ? this.readEntry(frame) : this.readElement(frame)
+  }
+
+  private readHeader() {
+    const head = this.queue.peek(3)
+    if (!head) return false
+    if (head[0] !== tagTypes.compound) {
+      throw this.error('Top tag should be a compound')
+    }
+    const name = this.readString(1)
+    if (name === undefined) return false
+    this.started = true
+    this.handler.start?.(name)
+    this.pending = { type: 'compound', mode: 'stream' }
+    return true
+  }
+
+  private readEntry(frame: Frame & { kind: 'compound' }) {
+    const head = this.queue.peek(1)
+    if (!head) return false
+    if (head[0] === tagTypes.end) {
+      this.queue.skip(1)
+      this.finishFrame()
+      return true
+    }
+    const type = this.tagType(head[0])
+    if (!this.queue.peek(3)) return false
+    const name = this.readString(1)
+    if (name === undefined) return false
+    this.path.push(name)
+    frame.key = name
+    this.pending = { type, mode: this.childMode(frame.mode, () => this.handler.key?.(name, type, this.path)) }
+    return true
+  }
+
+  private readElement(frame: Frame & { kind: 'list' }) {
+    if (frame.index >= frame.length) {
+      this.finishFrame()
+      return true
+    }
+    const index = frame.index
+    frame.index += 1
+    this.path.push(index)
+    this.pending = { type: frame.type, mode: this.childMode(frame.mode, () => this.handler.element?.(index, frame.type, this.path)) }
+    return true
+  }
+
+  private childMode(parent: Mode, action: () => NbtStreamAction | void): Mode {
+    if (parent !== 'stream') {
+      return parent
+    }
+    switch (action()) {
+      case 'skip': return 'skip'
+      case 'value': return 'build'
+      default: return 'stream'
+    }
+  }
+
+  private readValue(type: keyof NbtValues, mode: Mode) {
+    switch (type) {
+      case 'compound':
+        this.pushFrame({ kind: 'compound', mode, value: {} })
+        if (mode === 'stream') this.handler.startCompound?.(this.path)
+        return true
+      case 'list': {
+        const head = this.queue.peek(5)
+        if (!head) return false
+        const elementType = this.tagType(head[0])
+        const length = this.decode(head.subarray(1), 'int') as number
+        if (length < 0 || length > (this.options.maxArrayLength ?? Infinity)) {
+          throw this.error(`Invalid list length ${length}`)
+        }
+        if (elementType === 'end' && length > 0) {
+          throw this.error(`Missing type on list of length ${length}`)
+        }
+        this.queue.skip(5)
+        this.pushFrame({ kind: 'list', mode, type: elementType, length, index: 0, value: [] })
+        if (mode === 'stream') this.handler.startList?.(elementType, length, this.path)
+        return true
+      }
+      case 'string': {
+        const head = this.queue.peek(2)
+        if (!head) return false
+        const length = (this.decode(head, 'short') as number) & 0xFFFF
+        return this.readPrimitive(type, mode, 2 + length)
+      }
+      case 'byteArray':
+      case 'intArray':
+      case 'longArray': {
+        const head = this.queue.peek(4)
+        if (!head) return false
+        const length = this.decode(head, 'int') as number
+        if (length < 0 || length > (this.options.maxArrayLength ?? Infinity)) {
+          throw this.error(`Invalid array length ${length}`)
+        }
+        if (mode === 'skip') {
+          this.queue.skip(4)
+          this.skipRemaining = length * arrayWidths[type]
+          if (this.skipRemaining === 0) this.finishValue()
+          return true
+        }
+        return this.readPrimitive(type, mode, 4 + length * arrayWidths[type])
+      }
+      case 'end':
+        throw this.error('Unexpected end tag')
+      default:
+        return this.readPrimitive(type, mode, fixedSizes[type])
+    }
+  }
+
+  private readPrimitive(type: keyof NbtValues, mode: Mode, size: number) {
+    const bytes = this.queue.peek(size)
+    if (!bytes) return false
+    const value = mode === 'skip' ? undefined : this.decode(bytes, type)
+    this.queue.skip(size)
+    this.finishValue({ type, value } as NbtTag, mode)
+    return true
+  }
+
+  private finishValue(tag?: NbtTag, mode: Mode = 'skip') {
+    this.pending = undefined
+    if (tag && mode !== 'skip') {
+      this.deliver(tag)
+    }
+    this.path.pop()
+  }
+
+  private pushFrame(frame: Frame) {
+    this.pending = undefined
+    this.frames.push(frame)
+    if (this.frames.length > this.maxDepth) {
+      throw this.error(`Exceeded the maximum depth of ${this.maxDepth}`)
+    }
+  }
+
+  private finishFrame() {
+    const frame = this.frames.pop()!
+    if (frame.mode === 'stream') {
+      if (frame.kind === 'compound') {
+        this.handler.endCompound?.(this.path)
+      } else {
+        this.handler.endList?.(this.path)
+      }
+    } else if (frame.mode === 'build') {
+      this.deliver(frame.kind === 'compound'
+        ? { type: 'compound', value: frame.value }
+        : { type: 'list', value: { type: frame.type, value: frame.value } as NbtValues['list'] })
+    }
+    if (this.frames.length === 0) {
+      this.done = true
+      this.handler.end?.()
+    } else {
+      this.path.pop()
+    }
+  }
+
+  private deliver(tag: NbtTag) {
+    const parent = this.frames[this.frames.length - 1]
+    if (parent?.mode === 'build') {
+      if (parent.kind === 'compound') {
+        parent.value[parent.key!] = tag
+      } else {
+        parent.value.push(tag.value)
+      }
+    } else {
+      this.handler.value?.(tag, this.path)
+    }
+  }
+
+  private readString(offset = 0) {
+    const head = this.queue.peek(offset + 2)
+    if (!head) return undefined
+    const length = (this.decode(head.subarray(offset), 'short') as number) & 0xFFFF
+    const bytes = this.queue.peek(offset + 2 + length)
+    if (!bytes) return undefined
+    const value = this.decode(bytes.subarray(offset), 'string') as string
+    this.queue.skip(offset + 2 + length)
+    return value
+  }
+
+  private tagType(id: number) {
+    const type = tagNames[id]
+    if (type === undefined) {
+      throw this.error(`Invalid tag type ${id}`)
+    }
+    return type
+  }
+
+  /** Decodes a value at the start of `bytes`, reusing the reader while the bytes come from the same buffer */
+  private decode(bytes: Uint8Array, type: keyof NbtValues) {
+    if (!this.reader || this.readerBuffer !== bytes.buffer) {
+      this.reader = new NbtReader(new Uint8Array(bytes.buffer), this.options.littleEndian, this.readOptions)
+      this.readerBuffer = bytes.buffer
+    }
+    this.reader.offset = bytes.byteOffset
+    return this.reader[type]()
+  }
+}
+
+export async function readNbtStream(stream: ReadableStream<Uint8Array>, handler: NbtStreamHandler, options?: NbtStreamOptions) {
+  const reader = new NbtStreamReader(handler, options)
+  const source = stream.getReader()
+  while (true) {
+    const { done, value } = await source.read()
+    if (done) break
+    if (value) reader.push(value)
+  }
+  reader.end()
+}
+
+class ByteQueue {
+  private chunks: Uint8Array[] = []
+  private offset = 0
+  private available = 0
+  public consumed = 0
+  public total = 0
+
+  push(chunk: Uint8Array) {
+    if (chunk.length > 0) {
+      this.chunks.push(chunk)
+      this.available += chunk.length
+      this.total += chunk.length
+    }
+  }
+
+  peek(length: number): Uint8Array | undefined {
+    if (this.available < length) {
+      return undefined
+    }
+    const first = this.chunks[0]
+    if (first === undefined || this.offset + length <= first.length) {
+      return (first ?? new Uint8Array(0)).subarray(this.offset, this.offset + length)
+    }
+    const result = new Uint8Array(length)
+    let position = 0
+    let offset = this.offset
+    for (const chunk of this.chunks) {
+      const part = chunk.subarray(offset, offset + length - position)
+      result.set(part, position)
+      position += part.length
+      offset = 0
+      if (position === length) break
+    }
+    return result
+  }
+
+  skip(length: number) {
+    let skipped = 0
+    while (skipped < length && this.chunks.length > 0) {
+      const first = this.chunks[0]
+      const count = Math.min(length - skipped, first.length - this.offset)
+      skipped += count
+      this.offset += count
+      if (this.offset === first.length) {
+        this.chunks.shift()
+        this.offset = 0
+      }
+    }
+    this.available -= skipped
+    this.consumed += skipped
+    return skipped
+  }
+}
@@ -0,0 +1,13 @@
+import { quoteName } from './Utils'
+
+/** Compound keys and list or array indices leading from a root tag to a nested tag */
+export type NbtTagPath = (string | number)[]
+
+export function stringifyNbtTagPath(path: NbtTagPath) {
+  return path.map((key, i) => {
+    if (typeof key === 'number') {
+      return `[${key}]`
+    }
+    return i > 0 ? `.${quoteName(key)}` : quoteName(key)
+  }).join('')
+}
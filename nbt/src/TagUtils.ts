@@ -1,19 +1,31 @@
 import { NbtTag, NbtValues } from './Nbt';
 
 export function getTag<T extends keyof NbtValues>(tag: NbtValues['compound'], name: string, type: T): NbtValues[T]
-export function getTag(tags: NbtValues['compound'], name: string, type: string) {
-  if (!tags[name]) {
+export function getTag(tags: NbtValues['compound'], name: string, type: keyof NbtValues) {
+  return checkTag(tags[name], name, type)
+}
+
+/** Returns the value of a tag after checking its type, using `name` in errors like `getTag` does */
+export function checkTag<T extends keyof NbtValues>(tag: NbtTag | undefined, name: string, type: T): NbtValues[T]
+export function checkTag(tag: NbtTag | undefined, name: string, type: keyof NbtValues) {
+  if (!tag) {
     throw new Error(`Missing ${name} tag`)
   }
-  if (tags[name].type !== type) {
-    throw new Error(`Expected ${name} to be of type ${type}, but found ${tags[name].type}`)
+  if (tag.type !== type) {
+    throw new Error(`Expected ${name} to be of type ${type}, but found ${tag.type}`)
   }
-  return tags[name].value
+  return tag.value
 }
 
 export function getListTag<T extends keyof NbtValues>(tag: NbtValues['compound'], name: string, type: T, length?: number): NbtValues[T][]
-export function getListTag(tags: { [key: string]: NbtTag }, name: string, type: string, length?: number) {
-  const value = getTag(tags, name, 'list') as {type: string, value: any[]}
+export function getListTag(tags: { [key: string]: NbtTag }, name: string, type: keyof NbtValues, length?: number) {
+  return checkListTag(tags[name], name, type, length)
+}
+
+/** Returns the elements of a list tag after checking their type, using `name` in errors like `getListTag` does */
+export function checkListTag<T extends keyof NbtValues>(tag: NbtTag | undefined, name: string, type: T, length?: number): NbtValues[T][]
+export function checkListTag(tag: NbtTag | undefined, name: string, type: keyof NbtValues, length?: number) {
+  const value = checkTag(tag, name, 'list') as {type: string, value: any[]}
   if (value.type !== type) {
     throw new Error(`Expected ${name} to be a list of ${type}s, but found ${value.type}s`)
   }
@@ -30,3 +42,112 @@ export function getOptional<T>(readResult: () => T, fallback: T) {
     return fallback
   }
 }
+
+export function matchesNbt(expected: NbtTag, actual: NbtTag, partialLists = true): boolean {
+  if (expected.type !== actual.type) {
+    return false
+  }
+  switch (expected.type) {
+    case 'compound': {
+      const actualValue = actual.value as NbtValues['compound']
+      const keys = Object.keys(expected.value)
+      if (!partialLists && keys.length !== Object.keys(actualValue).length) {
+        return false
+      }
+      return keys.every(k => actualValue[k] !== undefined
+        && matchesNbt(expected.value[k], actualValue[k], partialLists))
+    }
+    case 'list': {
+      const actualList = actual.value as NbtValues['list']
+      const wrap = (v: any) => ({ type: expected.value.type, value: v } as NbtTag)
+      const expectedValues = expected.value.value as any[]
+      const actualValues = actualList.value as any[]
+      if (!partialLists || expectedValues.length === 0) {
+        return expectedValues.length === actualValues.length
+          && expectedValues.every((v, i) => matchesNbt(wrap(v), wrap(actualValues[i]), partialLists))
+      }
+      return expectedValues.every(v => actualValues.some(a => matchesNbt(wrap(v), wrap(a), partialLists)))
+    }
+    case 'long':
+      return longToBigInt(expected.value) === longToBigInt(actual.value as NbtValues['long'])
+    case 'byteArray':
+    case 'intArray': {
+      const actualValues = actual.value as ArrayLike<number>
+      return expected.value.length === actualValues.length
+        && Array.from(expected.value).every((v, i) => v === actualValues[i])
+    }
+    case 'longArray': {
+      const expectedValues = longArrayToBigInt(expected.value)
+      const actualValues = longArrayToBigInt(actual.value as NbtValues['longArray'])
+      return expectedValues.length === actualValues.length
+        && expectedValues.every((v, i) => v === actualValues[i])
+    }
+    default:
+      return expected.value === actual.value
+  }
+}
+
+export function equalsNbt(a: NbtTag, b: NbtTag) {
+  return matchesNbt(a, b, false) && matchesNbt(b, a, false)
+}
+
+export function cloneNbt<T extends NbtTag>(tag: T): T
+export function cloneNbt(tag: NbtTag): NbtTag {
+  switch (tag.type) {
+    case 'compound': {
+      const values: NbtValues['compound'] = {}
+      for (const key in tag.value) {
+        values[key] = cloneNbt(tag.value[key])
+      }
+      return { type: 'compound', value: values }
+    }
+    case 'list': {
+      const type = tag.value.type
+      const values = (tag.value.value as any[])
+        .map(v => cloneNbt({ type, value: v } as NbtTag).value)
+      return { type: 'list', value: { type, value: values } as NbtValues['list'] }
+    }
+    case 'long':
+      return { type: 'long', value: typeof tag.value === 'bigint' ? tag.value : [tag.value[0], tag.value[1]] }
+    case 'longArray':
+      return { type: 'longArray', value: tag.value instanceof BigInt64Array
+        ? tag.value.slice()
+        : tag.value.map(v => [v[0], v[1]] as [number, number]) }
+    case 'byteArray':
+    case 'intArray':
+      return { type: tag.type, value: tag.value.slice() } as NbtTag
+    default:
+      return { ...tag }
+  }
+}
+
+export function longToBigInt(value: NbtValues['long']): bigint {
+  if (typeof value === 'bigint') {
+    return value
+  }
+  return (BigInt(value[0]) << BigInt(32)) | BigInt(value[1] >>> 0)
+}
+
+export function longToPair(value: NbtValues['long']): [number, number] {
+  if (typeof value !== 'bigint') {
+    return value
+  }
+  return [
+    Number(BigInt.asIntN(32, value >> BigInt(32))),
+    Number(BigInt.asIntN(32, value))
+  ]
+}
+
+export function longArrayToBigInt(value: NbtValues['longArray']): BigInt64Array {
+  if (value instanceof BigInt64Array) {
+    return value
+  }
+  return BigInt64Array.from(value, longToBigInt)
+}
+
+export function longArrayToPairs(value: NbtValues['longArray']): [number, number][] {
+  if (!(value instanceof BigInt64Array)) {
+    return value
+  }
+  return Array.from(value, longToPair)
+}
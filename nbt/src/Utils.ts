@@ -3,10 +3,23 @@ export function hasGzipHeader(data: ArrayBuffer) {
   return head.length === 2 && head[0] === 0x1f && head[1] === 0x8b;
 }
 
+export const platformLittleEndian = new Uint8Array(new Uint16Array([1]).buffer)[0] === 1
+
+export function swapEndianness(array: Uint8Array, width: number) {
+  for (let i = 0; i < array.length; i += width) {
+    for (let a = i, b = i + width - 1; a < b; a++, b--) {
+      const t = array[a]
+      array[a] = array[b]
+      array[b] = t
+    }
+  }
+}
+
 export function encodeUTF8(str: string) {
   var array = [], i, c;
   for (i = 0; i < str.length; i++) {
-    c = str.charCodeAt(i);
+    c = str.codePointAt(i)!;
+    if (c >= 0x10000) i++;
     if (c < 0x80) {
       array.push(c);
     } else if (c < 0x800) {
@@ -57,5 +70,76 @@ export function decodeUTF8(array: Uint8Array) {
         ( array[i+3] & 0x3F));
     }
   }
-  return String.fromCharCode.apply(null, codepoints);
+  return String.fromCodePoint.apply(null, codepoints);
+}
+
+export function encodeModifiedUTF8(str: string) {
+  let length = 0
+  for (let i = 0; i < str.length; i++) {
+    const c = str.charCodeAt(i)
+    length += (c >= 0x01 && c < 0x80) ? 1 : c < 0x800 ? 2 : 3
+  }
+  const array = new Uint8Array(length)
+  let j = 0
+  for (let i = 0; i < str.length; i++) {
+    const c = str.charCodeAt(i)
+    if (c >= 0x01 && c < 0x80) {
+      array[j++] = c
+    } else if (c < 0x800) {
+      array[j++] = 0xC0 | c >> 6
+      array[j++] = 0x80 | c & 0x3F
+    } else {
+      array[j++] = 0xE0 | c >> 12
+      array[j++] = 0x80 | (c >> 6) & 0x3F
+      array[j++] = 0x80 | c & 0x3F
+    }
+  }
+  return array
+}
+
+export function decodeModifiedUTF8(array: Uint8Array) {
+  const units: number[] = []
+  let i = 0
+  while (i < array.length) {
+    const a = array[i]
+    if ((a & 0x80) === 0) {
+      units.push(a)
+      i += 1
+    } else if ((a & 0xE0) === 0xC0 && isContinuation(array, i, 1)) {
+      units.push((a & 0x1F) << 6 | array[i+1] & 0x3F)
+      i += 2
+    } else if ((a & 0xF0) === 0xE0 && isContinuation(array, i, 2)) {
+      units.push((a & 0x0F) << 12 | (array[i+1] & 0x3F) << 6 | array[i+2] & 0x3F)
+      i += 3
+    } else if ((a & 0xF8) === 0xF0 && isContinuation(array, i, 3)) {
+      // Standard UTF-8 sequence, written by tools that don't use modified UTF-8
+      const c = (a & 0x07) << 18 | (array[i+1] & 0x3F) << 12 | (array[i+2] & 0x3F) << 6 | array[i+3] & 0x3F
+      units.push(0xD800 | (c - 0x10000) >> 10, 0xDC00 | (c - 0x10000) & 0x3FF)
+      i += 4
+    } else {
+      throw new Error(`Malformed modified UTF-8 byte 0x${a.toString(16)} at position ${i}`)
+    }
+  }
+  let result = ''
+  for (let j = 0; j < units.length; j += 8192) {
+    result += String.fromCharCode.apply(null, units.slice(j, j + 8192))
+  }
+  return result
+}
+
+function isContinuation(array: Uint8Array, start: number, count: number) {
+  if (start + count >= array.length) {
+    return false
+  }
+  for (let i = 1; i <= count; i++) {
+    if ((array[start + i] & 0xC0) !== 0x80) {
+      return false
+    }
+  }
+  return true
+}
+
+/** Quotes a compound key unless it can be written unquoted in a path */
+export function quoteName(name: string) {
+  return /^[^ "'\[\].{}]+$/.test(name) ? name : JSON.stringify(name)
 }
@@ -1,16 +1,21 @@
-import { NbtValues, tagTypes } from './Nbt'
-import { encodeUTF8 } from './Utils'
+import { NbtValues, NbtWriteOptions, tagTypes } from './Nbt'
+import { longToBigInt, longToPair } from './TagUtils'
+import { encodeModifiedUTF8, encodeUTF8, platformLittleEndian, swapEndianness } from './Utils'
 
 export class NbtWriter {
   public offset: number
   private littleEndian: boolean
+  private varint: boolean
+  private utf8: boolean
   private buffer: ArrayBuffer
   private arrayView: Uint8Array
   private dataView: DataView
 
-  constructor(littleEndian = false) {
+  constructor(littleEndian = false, options: NbtWriteOptions = {}) {
     this.offset = 0
     this.littleEndian = littleEndian
+    this.varint = options.varint ?? false
+    this.utf8 = (options.stringEncoding ?? (littleEndian ? 'utf8' : 'modifiedUtf8')) === 'utf8'
     this.buffer = new ArrayBuffer(1024)
     this.arrayView = new Uint8Array(this.buffer)
     this.dataView = new DataView(this.buffer)
@@ -55,13 +60,50 @@ export class NbtWriter {
 
   byte = this.writeNum.bind(this, 'setInt8', 1)
   short = this.writeNum.bind(this, 'setInt16', 2)
-  int = this.writeNum.bind(this, 'setInt32', 4)
   float = this.writeNum.bind(this, 'setFloat32', 4)
   double = this.writeNum.bind(this, 'setFloat64', 8)
+  private int32 = this.writeNum.bind(this, 'setInt32', 4)
+
+  int(value: NbtValues['int']) {
+    if (this.varint) {
+      this.varUint((value << 1) ^ (value >> 31))
+    } else {
+      this.int32(value)
+    }
+  }
 
   long(value: NbtValues['long']) {
-    this.int(value[0])
-    this.int(value[1])
+    if (this.varint) {
+      const long = longToBigInt(value)
+      this.varUlong(BigInt.asUintN(64, (long << BigInt(1)) ^ (long >> BigInt(63))))
+      return
+    }
+    const [high, low] = longToPair(value)
+    if (this.littleEndian) {
+      this.int32(low)
+      this.int32(high)
+    } else {
+      this.int32(high)
+      this.int32(low)
+    }
+  }
+
+  private varUint(value: number) {
+    value >>>= 0
+    while (value >= 0x80) {
+      this.byte((value & 0x7F) | 0x80)
+      value >>>= 7
+    }
+    this.byte(value)
+  }
+
+  private varUlong(value: bigint) {
+    const mask = BigInt(0x7F)
+    while (value > mask) {
+      this.byte(Number(value & mask) | 0x80)
+      value >>= BigInt(7)
+    }
+    this.byte(Number(value))
   }
 
   byteArray(value: NbtValues['byteArray']) {
@@ -71,8 +113,22 @@ export class NbtWriter {
     this.offset += value.length
   }
 
+  private typedArray(value: Int32Array | BigInt64Array) {
+    this.accommodate(value.byteLength)
+    const bytes = new Uint8Array(value.buffer, value.byteOffset, value.byteLength)
+    this.arrayView.set(bytes, this.offset)
+    if (this.littleEndian !== platformLittleEndian) {
+      swapEndianness(this.arrayView.subarray(this.offset, this.offset + value.byteLength), value.BYTES_PER_ELEMENT)
+    }
+    this.offset += value.byteLength
+  }
+
   intArray(value: NbtValues['intArray']) {
     this.int(value.length)
+    if (value instanceof Int32Array && !this.varint) {
+      this.typedArray(value)
+      return
+    }
     for (let i = 0; i < value.length; i++) {
       this.int(value[i])
     }
@@ -80,14 +136,24 @@ export class NbtWriter {
 
   longArray(value: NbtValues['longArray']) {
     this.int(value.length)
+    if (value instanceof BigInt64Array && !this.varint) {
+      this.typedArray(value)
+      return
+    }
     for (let i = 0; i < value.length; i++) {
       this.long(value[i])
     }
   }
 
   string(value: NbtValues['string']) {
-    const bytes = encodeUTF8(value)
-    this.short(bytes.length)
+    const bytes = this.utf8 ? encodeUTF8(value) : encodeModifiedUTF8(value)
+    if (this.varint) {
+      this.varUint(bytes.length)
+    } else if (bytes.length > 65535) {
+      throw new Error(`String of ${bytes.length} bytes exceeds the maximum length of 65535 bytes`)
+    } else {
+      this.short(bytes.length)
+    }
     this.accommodate(bytes.length)
     this.arrayView.set(bytes, this.offset)
     this.offset += bytes.length
@@ -1,2 +1,13 @@
+export * from './Bedrock'
+export * from './Builder'
+export * from './Compression'
+export * from './Json'
 export * from './Nbt'
+export * from './NbtDiff'
+export * from './NbtPath'
+export * from './Region'
+export * from './Schema'
+export * from './Snbt'
+export * from './Stream'
+export * from './TagPath'
 export * from './TagUtils'
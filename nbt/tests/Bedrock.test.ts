@@ -0,0 +1,74 @@
+import 'mocha';
+import { expect } from 'chai';
+import { NamedNbtTag } from '../src/Nbt';
+import { readBedrock, readBedrockLevel, readBedrockNetwork, writeBedrock, writeBedrockLevel, writeBedrockNetwork } from '../src/Bedrock';
+
+const nbt: NamedNbtTag = { name: '', value: {
+  foo: { type: 'int', value: 300 },
+  l: { type: 'long', value: [-1, -2] },
+  s: { type: 'string', value: 'hi😀' },
+  L: { type: 'list', value: { type: 'int', value: [1, -1] } }
+} }
+
+const raw = new Uint8Array([
+  10, 0, 0,
+  3, 3, 0, 102, 111, 111, 44, 1, 0, 0,
+  4, 1, 0, 108, 254, 255, 255, 255, 255, 255, 255, 255,
+  8, 1, 0, 115, 6, 0, 104, 105, 240, 159, 152, 128,
+  9, 1, 0, 76, 3, 2, 0, 0, 0, 1, 0, 0, 0, 255, 255, 255, 255,
+  0
+])
+
+const rawNetwork = new Uint8Array([
+  10, 0,
+  3, 3, 102, 111, 111, 216, 4,
+  4, 1, 108, 3,
+  8, 1, 115, 6, 104, 105, 240, 159, 152, 128,
+  9, 1, 76, 3, 4, 2, 1,
+  0
+])
+
+describe('Bedrock', () => {
+  it('readBedrock', () => {
+    expect(readBedrock(raw)).to.deep.equal(nbt)
+    expect(readBedrock(raw, { bigint: true }).value['l']).to.deep.equal({ type: 'long', value: BigInt(-2) })
+  })
+
+  it('writeBedrock', () => {
+    expect(writeBedrock(nbt)).to.deep.equal(raw)
+  })
+
+  it('readBedrockNetwork', () => {
+    expect(readBedrockNetwork(rawNetwork)).to.deep.equal(nbt)
+    expect(readBedrockNetwork(rawNetwork.filter((_, i) => i !== 1), { unnamed: true })).to.deep.equal(nbt)
+  })
+
+  it('writeBedrockNetwork', () => {
+    expect(writeBedrockNetwork(nbt)).to.deep.equal(rawNetwork)
+    expect(writeBedrockNetwork(nbt, { unnamed: true })).to.deep.equal(rawNetwork.filter((_, i) => i !== 1))
+  })
+
+  it('network varints', () => {
+    const values: NamedNbtTag = { name: 'root', value: {
+      min: { type: 'int', value: -2147483648 },
+      max: { type: 'int', value: 2147483647 },
+      minLong: { type: 'long', value: [-2147483648, 0] },
+      maxLong: { type: 'long', value: [2147483647, -1] },
+      ints: { type: 'intArray', value: [0, -64, 64] },
+      longs: { type: 'longArray', value: [[0, 1], [-1, -1]] },
+      bytes: { type: 'byteArray', value: [1, -1] }
+    } }
+    expect(readBedrockNetwork(writeBedrockNetwork(values))).to.deep.equal(values)
+  })
+
+  it('readBedrockLevel', () => {
+    const level = new Uint8Array([10, 0, 0, 0, raw.length, 0, 0, 0, ...raw])
+    expect(readBedrockLevel(level)).to.deep.equal({ version: 10, result: nbt })
+    expect(() => readBedrockLevel(level.slice(0, 20))).to.throw()
+    expect(() => readBedrockLevel(new Uint8Array([10, 0]))).to.throw()
+  })
+
+  it('writeBedrockLevel', () => {
+    expect(writeBedrockLevel(nbt, 10)).to.deep.equal(new Uint8Array([10, 0, 0, 0, raw.length, 0, 0, 0, ...raw]))
+  })
+})
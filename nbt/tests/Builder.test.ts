@@ -0,0 +1,79 @@
+import 'mocha';
+import { expect } from 'chai';
+import { Nbt } from '../src/Builder';
+import { NbtTag } from '../src/Nbt';
+import { parseSnbt } from '../src/Snbt';
+
+describe('Builder', () => {
+  it('primitives', () => {
+    expect(Nbt.byte(-128)).to.deep.equal({ type: 'byte', value: -128 })
+    expect(Nbt.byte(true)).to.deep.equal({ type: 'byte', value: 1 })
+    expect(Nbt.short(32767)).to.deep.equal({ type: 'short', value: 32767 })
+    expect(Nbt.int(-2147483648)).to.deep.equal({ type: 'int', value: -2147483648 })
+    expect(Nbt.float(0.1).value).to.equal(Math.fround(0.1))
+    expect(Nbt.double(0.1)).to.deep.equal({ type: 'double', value: 0.1 })
+    expect(Nbt.string('a')).to.deep.equal({ type: 'string', value: 'a' })
+  })
+
+  it('primitives (out of range)', () => {
+    expect(() => Nbt.byte(128)).to.throw(RangeError, 'Expected a byte between -128 and 127, but found 128')
+    expect(() => Nbt.short(-32769)).to.throw(RangeError)
+    expect(() => Nbt.int(2147483648)).to.throw(RangeError, 'Expected an int between -2147483648 and 2147483647, but found 2147483648')
+    expect(() => Nbt.int(1.5)).to.throw(RangeError)
+  })
+
+  it('long', () => {
+    expect(Nbt.long(5)).to.deep.equal({ type: 'long', value: [0, 5] })
+    expect(Nbt.long(-1)).to.deep.equal({ type: 'long', value: [-1, -1] })
+    expect(Nbt.long('9223372036854775807')).to.deep.equal({ type: 'long', value: [2147483647, -1] })
+    expect(Nbt.long(BigInt(7))).to.deep.equal({ type: 'long', value: BigInt(7) })
+    expect(Nbt.long([1, 2])).to.deep.equal({ type: 'long', value: [1, 2] })
+    expect(() => Nbt.long('9223372036854775808')).to.throw(RangeError)
+    expect(() => Nbt.long(2 ** 60)).to.throw(RangeError)
+    expect(() => Nbt.long('abc')).to.throw(RangeError)
+  })
+
+  it('arrays', () => {
+    expect(Nbt.byteArray([1, -1])).to.deep.equal({ type: 'byteArray', value: [1, -1] })
+    expect(Nbt.intArray(new Int32Array([3])).value).to.be.instanceOf(Int32Array)
+    expect(Nbt.longArray([1, '-1'])).to.deep.equal({ type: 'longArray', value: [[0, 1], [-1, -1]] })
+    expect(() => Nbt.byteArray([200])).to.throw(RangeError)
+  })
+
+  it('list', () => {
+    expect(Nbt.list('int', [1, 2])).to.deep.equal({ type: 'list', value: { type: 'int', value: [1, 2] } })
+    expect(Nbt.list('end', [])).to.deep.equal({ type: 'list', value: { type: 'end', value: [] } })
+    expect(Nbt.listOf([Nbt.short(1), Nbt.short(2)])).to.deep.equal({ type: 'list', value: { type: 'short', value: [1, 2] } })
+    expect(() => Nbt.list('byte', [1000])).to.throw(RangeError)
+    expect(() => Nbt.listOf<any>([Nbt.short(1), Nbt.int(2)])).to.throw('Expected a list of shorts, but found int')
+  })
+
+  it('compound', () => {
+    const tag: NbtTag = Nbt.compound({
+      id: Nbt.string('minecraft:chest'),
+      Items: Nbt.list('compound', [
+        { Slot: Nbt.byte(0), Count: Nbt.byte(3) },
+      ]),
+      Lock: undefined,
+      Pos: Nbt.intArray([1, 2, 3]),
+    })
+    expect(tag).to.deep.equal(parseSnbt('{id:"minecraft:chest",Items:[{Slot:0b,Count:3b}],Pos:[I;1,2,3]}'))
+  })
+
+  it('getters', () => {
+    const tag = Nbt.compound({
+      a: Nbt.byte(1),
+      b: Nbt.long(-2),
+      c: Nbt.string('x'),
+      d: Nbt.list('int', [1, 2, 3]),
+      e: Nbt.compound({}),
+    })
+    expect(Nbt.getByte(tag.value, 'a')).to.equal(1)
+    expect(Nbt.getLong(tag.value, 'b')).to.equal(BigInt(-2))
+    expect(Nbt.getString(tag.value, 'c')).to.equal('x')
+    expect(Nbt.getList(tag.value, 'd', 'int', 3)).to.deep.equal([1, 2, 3])
+    expect(Nbt.getCompound(tag.value, 'e')).to.deep.equal({})
+    expect(() => Nbt.getInt(tag.value, 'a')).to.throw('Expected a to be of type int, but found byte')
+    expect(() => Nbt.getInt(tag.value, 'z')).to.throw('Missing z tag')
+  })
+})
@@ -31,6 +31,16 @@ describe('Full', () => {
     test('long', [6024, 269300])
   })
 
+  it('strings', () => {
+    test('string', 'hello')
+    test('string', 'Emoji \ud83d\ude00\ud83c\udf89 in a book')
+    test('string', 'nul\0byte')
+    test('string', '\u4f60\u597d\uff0c\u4e16\u754c \u3053\u3093\u306b\u3061\u306f \uc548\ub155')
+    test('compound', {
+      'text\0\ud83d\ude00': { type: 'string', value: '\ud83d\udc4d' }
+    })
+  })
+
   it('lists', () => {
     test('list', { type: 'int', value: [
       40, 14, 560, 12348
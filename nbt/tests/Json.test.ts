@@ -0,0 +1,107 @@
+import 'mocha';
+import { expect } from 'chai';
+import { nbtFromJson, nbtFromPlainJson, nbtToJson, nbtToPlainJson, PlainJsonSchema, tagFromJson, tagFromPlainJson, tagToJson, tagToPlainJson } from '../src/Json';
+import { NamedNbtTag } from '../src/Nbt';
+import { parseSnbt } from '../src/Snbt';
+
+const nbt: NamedNbtTag = {
+  name: 'root',
+  value: {
+    byte: { type: 'byte', value: -4 },
+    short: { type: 'short', value: 400 },
+    int: { type: 'int', value: 400000 },
+    long: { type: 'long', value: [-2, 5] },
+    float: { type: 'float', value: 0.5 },
+    double: { type: 'double', value: Infinity },
+    string: { type: 'string', value: 'hello 😀' },
+    byteArray: { type: 'byteArray', value: [1, -2, 3] },
+    intArray: { type: 'intArray', value: [] },
+    longArray: { type: 'longArray', value: [[0, 1], [-1, -1]] },
+    list: { type: 'list', value: { type: 'compound', value: [
+      { id: { type: 'string', value: 'a' } },
+      { nested: { type: 'list', value: { type: 'long', value: [[1, 0]] } } },
+    ] } },
+    empty: { type: 'list', value: { type: 'end', value: [] } },
+    compound: { type: 'compound', value: {} },
+  }
+}
+
+describe('Json', () => {
+  it('nbtToJson', () => {
+    const json = nbtToJson(nbt)
+    expect(json.version).to.equal(1)
+    expect(json.name).to.equal('root')
+    expect(json.value['long']).to.deep.equal({ type: 'long', value: '-8589934587' })
+    expect(json.value['double']).to.deep.equal({ type: 'double', value: 'Infinity' })
+    expect(json.value['longArray']).to.deep.equal({ type: 'longArray', value: ['1', '-1'] })
+  })
+
+  it('nbtFromJson (round trip)', () => {
+    const json = JSON.parse(JSON.stringify(nbtToJson(nbt)))
+    expect(nbtFromJson(json)).to.deep.equal(nbt)
+    expect(nbtToJson(nbtFromJson(json, { bigint: true, typedArrays: true }))).to.deep.equal(json)
+  })
+
+  it('nbtFromJson (invalid)', () => {
+    expect(() => nbtFromJson({ version: 2, name: '', value: {} })).to.throw('Unsupported NBT JSON version 2')
+    expect(() => tagFromJson({ type: 'foo', value: 1 } as any)).to.throw('Invalid tag type foo')
+  })
+
+  it('tagToJson', () => {
+    expect(tagToJson({ type: 'long', value: BigInt('-9223372036854775808') })).to.deep.equal({ type: 'long', value: '-9223372036854775808' })
+    expect(tagToJson({ type: 'intArray', value: new Int32Array([1, 2]) })).to.deep.equal({ type: 'intArray', value: [1, 2] })
+  })
+
+  it('nbtToPlainJson', () => {
+    expect(nbtToPlainJson(nbt)).to.deep.equal({
+      byte: -4,
+      short: 400,
+      int: 400000,
+      long: -8589934587,
+      float: 0.5,
+      double: 'Infinity',
+      string: 'hello 😀',
+      byteArray: [1, -2, 3],
+      intArray: [],
+      longArray: [1, -1],
+      list: [{ id: 'a' }, { nested: [4294967296] }],
+      empty: [],
+      compound: {},
+    })
+    expect(tagToPlainJson({ type: 'long', value: [2147483647, -1] })).to.equal('9223372036854775807')
+  })
+
+  it('nbtFromPlainJson (inferred)', () => {
+    expect(nbtFromPlainJson({ a: 1, b: 1.5, c: 'x', d: true, e: [1, 2.5], f: [{}], g: 3000000000 })).to.deep.equal({
+      name: '',
+      value: {
+        a: { type: 'int', value: 1 },
+        b: { type: 'double', value: 1.5 },
+        c: { type: 'string', value: 'x' },
+        d: { type: 'byte', value: 1 },
+        e: { type: 'list', value: { type: 'double', value: [1, 2.5] } },
+        f: { type: 'list', value: { type: 'compound', value: [{}] } },
+        g: { type: 'long', value: [0, -1294967296] },
+      }
+    })
+    expect(() => nbtFromPlainJson({ a: [1, 'x'] })).to.throw('Expected a to be a list of ints, but found string')
+    expect(() => nbtFromPlainJson({ a: null })).to.throw('Cannot convert null at a to NBT')
+  })
+
+  it('nbtFromPlainJson (schema round trip)', () => {
+    const tag = parseSnbt('{Count:3b,Slot:1s,id:"minecraft:stone",tag:{Damage:4,Seed:-5L,Pos:[0.5d,1.0d],Ids:[I;1,2],States:[L;1L,2L],Enchantments:[{id:"x",lvl:2s}]}}')
+    if (tag.type !== 'compound') throw new Error()
+    const plain = nbtToPlainJson({ name: '', value: tag.value })
+    const schema: { [key: string]: PlainJsonSchema } = {
+      Count: 'byte', Slot: 'short',
+      tag: { Seed: 'long', Pos: ['double'], Ids: 'intArray', States: 'longArray', Enchantments: [{ lvl: 'short' }] },
+    }
+    expect(nbtFromPlainJson(plain, schema)).to.deep.equal({ name: '', value: tag.value })
+  })
+
+  it('tagFromPlainJson (schema mismatch)', () => {
+    expect(() => tagFromPlainJson({ a: 'x' }, { a: 'byte' })).to.throw('Expected a to be a number, but found string')
+    expect(() => tagFromPlainJson({ a: [1] }, { a: 'string' })).to.throw('Expected a to be a string, but found an array')
+    expect(() => tagFromPlainJson({ a: [{ b: 1 }] }, { a: [{ b: 'list' }] })).to.throw('Expected a[0].b to be an array, but found number')
+  })
+})
@@ -0,0 +1,47 @@
+import 'mocha';
+import { expect } from 'chai';
+import { compressLz4, decompressLz4, xxhash32 } from '../src/Lz4';
+
+function bytes(text: string) {
+  return new Uint8Array([...text].map(c => c.charCodeAt(0)))
+}
+
+describe('Lz4', () => {
+  it('xxhash32', () => {
+    expect(xxhash32(bytes(''), 0)).to.equal(0x02CC5D05)
+    expect(xxhash32(bytes('abc'), 0)).to.equal(0x32D153FF)
+    expect(xxhash32(bytes('Nobody inspects the spammish repetition'), 0)).to.equal(0xE2293B2F)
+  })
+
+  it('compressLz4', () => {
+    const data = new Uint8Array(200000).map((_, i) => i % 13)
+    const compressed = compressLz4(data)
+    expect(compressed.length).to.be.below(data.length / 10)
+    expect(decompressLz4(compressed)).to.deep.equal(data)
+  })
+
+  it('compressLz4 (incompressible)', () => {
+    const data = new Uint8Array(1000).map(() => Math.floor(Math.random() * 256))
+    expect(decompressLz4(compressLz4(data))).to.deep.equal(data)
+    expect(decompressLz4(compressLz4(new Uint8Array(0)))).to.deep.equal(new Uint8Array(0))
+  })
+
+  it('decompressLz4', () => {
+    const expected = bytes('abcdeabcdeabcfgh')
+    const checksum = xxhash32(expected, 0x9747b28c) & 0xFFFFFFF
+    const data = new Uint8Array([
+      76, 90, 52, 66, 108, 111, 99, 107, 0x26, 12, 0, 0, 0, 16, 0, 0, 0,
+      checksum & 0xFF, (checksum >> 8) & 0xFF, (checksum >> 16) & 0xFF, checksum >>> 24,
+      0x54, 97, 98, 99, 100, 101, 5, 0, 0x30, 102, 103, 104,
+      76, 90, 52, 66, 108, 111, 99, 107, 0x16, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0
+    ])
+    expect(decompressLz4(data)).to.deep.equal(expected)
+  })
+
+  it('decompressLz4 (invalid)', () => {
+    expect(() => decompressLz4(new Uint8Array([1, 2, 3]))).to.throw()
+    const compressed = compressLz4(bytes('hello world'))
+    compressed[25] ^= 1
+    expect(() => decompressLz4(compressed)).to.throw()
+  })
+})
@@ -1,7 +1,7 @@
 import 'mocha';
 import { expect } from 'chai';
 import pako from 'pako'
-import { NamedNbtTag, read, readChunk, readCompressed, readRegion, readUncompressed, write, writeChunk, writeCompressed, writeRegion, writeUncompressed } from '../src/Nbt';
+import { NamedNbtTag, NbtParseError, read, readChunk, readCompressed, readRegion, readUncompressed, write, writeChunk, writeCompressed, writeRegion, writeUncompressed } from '../src/Nbt';
 
 const raw = new Uint8Array([10, 0, 0, 1, 0, 3, 102, 111, 111, 4, 0])
 const rawCompressed = pako.gzip(raw)
@@ -33,10 +33,20 @@ describe('Nbt', () => {
     expect(() => readUncompressed(rawInvalid)).to.throw()
   })
 
+  it('readUncompressed (truncated)', () => {
+    expect(() => readUncompressed(raw.slice(0, 9))).to.throw(NbtParseError, 'at offset 9 in foo')
+  })
+
   it('readCompressed', () => {
     expect(readCompressed(rawCompressed)).to.deep.equal(nbt)
   })
 
+  it('readCompressed (maxBytes)', () => {
+    expect(readCompressed(rawCompressed, false, { maxBytes: raw.length })).to.deep.equal(nbt)
+    const bomb = pako.gzip(new Uint8Array(1 << 20))
+    expect(() => readCompressed(bomb, false, { maxBytes: 1024 })).to.throw(NbtParseError, 'Uncompressed data exceeds the limit of 1024 bytes')
+  })
+
   it('read', () => {
     expect(read(raw)).to.deep.equal({
       compressed: false,
@@ -49,6 +59,16 @@ describe('Nbt', () => {
     })
   })
 
+  it('read (bigint)', () => {
+    const rawLong = new Uint8Array([10, 0, 0, 4, 0, 3, 102, 111, 111, 0, 0, 0, 0, 0, 0, 0, 7, 0])
+    expect(read(rawLong, false, { bigint: true }).result).to.deep.equal({
+      name: '', value: { foo: { type: 'long', value: BigInt(7) } }
+    })
+    expect(read(rawLong).result).to.deep.equal({
+      name: '', value: { foo: { type: 'long', value: [0, 7] } }
+    })
+  })
+
   it('writeUncompressed', () => {
     expect(writeUncompressed(nbt)).to.deep.equal(raw)
   })
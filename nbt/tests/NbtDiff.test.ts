@@ -0,0 +1,100 @@
+import 'mocha';
+import { expect } from 'chai';
+import { applyNbtPatch, diffNbt, stringifyNbtDiff } from '../src/NbtDiff';
+import { NbtTag } from '../src/Nbt';
+import { parseSnbt } from '../src/Snbt';
+
+describe('NbtDiff', () => {
+  it('diffNbt (compound)', () => {
+    const a = parseSnbt('{a:1,b:"x",c:{d:2b}}')
+    const b = parseSnbt('{a:1,b:"y",c:{e:3b},f:4L}')
+    expect(diffNbt(a, b)).to.deep.equal([
+      { op: 'changed', path: ['b'], oldValue: { type: 'string', value: 'x' }, value: { type: 'string', value: 'y' } },
+      { op: 'removed', path: ['c', 'd'], oldValue: { type: 'byte', value: 2 } },
+      { op: 'added', path: ['c', 'e'], value: { type: 'byte', value: 3 } },
+      { op: 'added', path: ['f'], value: { type: 'long', value: [0, 4] } },
+    ])
+    expect(diffNbt(a, a)).to.deep.equal([])
+  })
+
+  it('diffNbt (type change)', () => {
+    const a = parseSnbt('{a:1,b:[1,2]}')
+    const b = parseSnbt('{a:1s,b:["x"]}')
+    expect(diffNbt(a, b).map(o => [o.op, o.path])).to.deep.equal([
+      ['changed', ['a']],
+      ['changed', ['b']],
+    ])
+  })
+
+  it('diffNbt (ordered lists)', () => {
+    const a = parseSnbt('{l:[1,2,3,4]}')
+    const b = parseSnbt('{l:[1,5]}')
+    expect(diffNbt(a, b)).to.deep.equal([
+      { op: 'changed', path: ['l', 1], oldValue: { type: 'int', value: 2 }, value: { type: 'int', value: 5 } },
+      { op: 'removed', path: ['l', 3], oldValue: { type: 'int', value: 4 } },
+      { op: 'removed', path: ['l', 2], oldValue: { type: 'int', value: 3 } },
+    ])
+    expect(diffNbt(parseSnbt('[1,2]'), parseSnbt('[2,1]'))).to.have.length(2)
+  })
+
+  it('diffNbt (unordered lists)', () => {
+    const options = { orderedLists: false }
+    expect(diffNbt(parseSnbt('[1,2]'), parseSnbt('[2,1]'), options)).to.deep.equal([])
+    expect(diffNbt(parseSnbt('[1,2,3,2]'), parseSnbt('[2,4,1]'), options)).to.deep.equal([
+      { op: 'removed', path: [3], oldValue: { type: 'int', value: 2 } },
+      { op: 'removed', path: [2], oldValue: { type: 'int', value: 3 } },
+      { op: 'added', path: [2], value: { type: 'int', value: 4 } },
+    ])
+  })
+
+  it('applyNbtPatch', () => {
+    const pairs = [
+      ['{a:1,b:"x",c:{d:2b}}', '{a:1,b:"y",c:{e:3b},f:4L}'],
+      ['{l:[1,2,3,4]}', '{l:[1,5]}'],
+      ['{l:[]}', '{l:[{id:"a"},{id:"b"}]}'],
+      ['{l:[{id:"a",n:[1b,2b]}]}', '{l:[{id:"a",n:[2b]},{id:"c"}]}'],
+      ['{a:[I;1,2]}', '{a:[I;1,3]}'],
+      ['1', '2s'],
+      ['{l:[1]}', '{l:[]}'],
+    ]
+    pairs.forEach(([snbtA, snbtB]) => {
+      const a = parseSnbt(snbtA)
+      const b = parseSnbt(snbtB)
+      const before = parseSnbt(snbtA)
+      expect(applyNbtPatch(a, diffNbt(a, b))).to.deep.equal(b)
+      expect(a).to.deep.equal(before)
+    })
+  })
+
+  it('applyNbtPatch (empty list types)', () => {
+    const a = parseSnbt('{l:[1]}')
+    const b: NbtTag = { type: 'compound', value: { l: { type: 'list', value: { type: 'int', value: [] } } } }
+    expect(applyNbtPatch(a, diffNbt(a, b))).to.deep.equal(b)
+    const c: NbtTag = { type: 'compound', value: { l: { type: 'list', value: { type: 'string', value: [] } } } }
+    expect(applyNbtPatch(b, diffNbt(b, c))).to.deep.equal(c)
+  })
+
+  it('applyNbtPatch (unordered lists)', () => {
+    const a = parseSnbt('{l:[1,2,3,2]}')
+    const b = parseSnbt('{l:[2,4,1]}')
+    const patched = applyNbtPatch(a, diffNbt(a, b, { orderedLists: false }))
+    expect(diffNbt(patched, b, { orderedLists: false })).to.deep.equal([])
+  })
+
+  it('applyNbtPatch (invalid)', () => {
+    const a = parseSnbt('{a:{b:1}}')
+    expect(() => applyNbtPatch(a, [{ op: 'removed', path: ['x', 'b'], oldValue: { type: 'int', value: 1 } }])).to.throw('Cannot find x')
+    expect(() => applyNbtPatch(a, [{ op: 'added', path: ['a', 0], value: { type: 'int', value: 1 } }])).to.throw('Expected a to be a list, but found compound')
+    expect(() => applyNbtPatch(a, [{ op: 'added', path: [], value: { type: 'int', value: 1 } }])).to.throw()
+  })
+
+  it('stringifyNbtDiff', () => {
+    const a = parseSnbt('{a:1,"b c":[1b,2b]}')
+    const b = parseSnbt('{"b c":[1b,3b],d:"x"}')
+    expect(stringifyNbtDiff(diffNbt(a, b))).to.equal([
+      '- a: 1',
+      '~ "b c"[1]: 2b -> 3b',
+      '+ d: "x"',
+    ].join('\n'))
+  })
+})
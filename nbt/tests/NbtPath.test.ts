@@ -0,0 +1,108 @@
+import 'mocha';
+import { expect } from 'chai';
+import { NbtTag, NbtValues } from '../src/Nbt';
+import { NbtPath } from '../src/NbtPath';
+import { parseSnbt, SnbtParseError } from '../src/Snbt';
+import { getListTag, getTag } from '../src/TagUtils';
+
+function get(snbt: string, path: string) {
+  return NbtPath.parse(path).get(parseSnbt(snbt))
+}
+
+const chest = '{id:"minecraft:chest",Items:[{Slot:0b,id:"minecraft:stone",Count:3b},{Slot:1b,id:"minecraft:dirt",Count:1b,tag:{display:{Name:"x"}}}],Pos:[I;1,2,3]}'
+
+describe('NbtPath', () => {
+  it('parse', () => {
+    expect(NbtPath.parse('foo').toString()).to.equal('foo')
+    expect(NbtPath.parse('{a:1b}.b[0].c[{id:"x"}]').toString()).to.equal('{a:1b}.b[0].c[{id:"x"}]')
+    expect(NbtPath.parse('"a b".c{d:1}[].e[-1]').toString()).to.equal('"a b".c{d:1}[].e[-1]')
+    expect(NbtPath.parse('a[0][1]').toString()).to.equal('a[0][1]')
+  })
+
+  it('parse (invalid)', () => {
+    expect(() => NbtPath.parse('')).to.throw(SnbtParseError)
+    expect(() => NbtPath.parse('a.{b:1}')).to.throw(SnbtParseError)
+    expect(() => NbtPath.parse('a[x]')).to.throw(SnbtParseError)
+    expect(() => NbtPath.parse('a[0')).to.throw(SnbtParseError)
+    expect(() => NbtPath.parse('a..b')).to.throw(SnbtParseError)
+  })
+
+  it('get', () => {
+    expect(get(chest, 'id')).to.deep.equal([{ type: 'string', value: 'minecraft:chest' }])
+    expect(get(chest, 'Items[0].id')).to.deep.equal([{ type: 'string', value: 'minecraft:stone' }])
+    expect(get(chest, 'Items[-1].Slot')).to.deep.equal([{ type: 'byte', value: 1 }])
+    expect(get(chest, 'Items[].Count')).to.deep.equal([{ type: 'byte', value: 3 }, { type: 'byte', value: 1 }])
+    expect(get(chest, 'Items[{id:"minecraft:dirt"}].tag.display.Name')).to.deep.equal([{ type: 'string', value: 'x' }])
+    expect(get(chest, 'Pos[1]')).to.deep.equal([{ type: 'int', value: 2 }])
+    expect(get(chest, '{id:"minecraft:chest"}.Pos[2]')).to.deep.equal([{ type: 'int', value: 3 }])
+  })
+
+  it('get (no matches)', () => {
+    expect(get(chest, 'missing')).to.deep.equal([])
+    expect(get(chest, 'Items[5]')).to.deep.equal([])
+    expect(get(chest, 'Items[{id:"minecraft:air"}]')).to.deep.equal([])
+    expect(get(chest, '{id:"minecraft:barrel"}.Items')).to.deep.equal([])
+    expect(get(chest, 'Items[].tag{display:{Name:"y"}}')).to.deep.equal([])
+  })
+
+  it('get (type errors)', () => {
+    expect(() => get(chest, 'id.foo')).to.throw('Expected id to be of type compound, but found string')
+    expect(() => get(chest, 'id[0]')).to.throw('Expected id to be of type list, but found string')
+    const compound = parseSnbt(chest).value as NbtValues['compound']
+    expect(() => getTag(compound, 'id', 'compound')).to.throw('Expected id to be of type compound, but found string')
+    expect(() => getListTag(compound, 'id', 'int')).to.throw('Expected id to be of type list, but found string')
+  })
+
+  it('set', () => {
+    const tag = parseSnbt(chest)
+    expect(NbtPath.parse('Items[].Count').set(tag, { type: 'byte', value: 64 })).to.equal(2)
+    expect(NbtPath.parse('Items[].Count').set(tag, { type: 'byte', value: 64 })).to.equal(0)
+    expect(NbtPath.parse('Items[{Slot:1b}].tag.display.Lore').set(tag, { type: 'string', value: 'y' })).to.equal(1)
+    expect(NbtPath.parse('Pos[0]').set(tag, { type: 'int', value: 7 })).to.equal(1)
+    expect(NbtPath.parse('CustomName.text').set(tag, { type: 'string', value: 'Box' })).to.equal(1)
+    expect(tag).to.deep.equal(parseSnbt('{id:"minecraft:chest",Items:[{Slot:0b,id:"minecraft:stone",Count:64b},{Slot:1b,id:"minecraft:dirt",Count:64b,tag:{display:{Name:"x",Lore:"y"}}}],Pos:[I;7,2,3],CustomName:{text:"Box"}}'))
+  })
+
+  it('set (creates list elements)', () => {
+    const tag: NbtTag = { type: 'compound', value: {} }
+    expect(NbtPath.parse('Items[{Slot:0b}].Count').set(tag, { type: 'byte', value: 1 })).to.equal(1)
+    expect(tag).to.deep.equal(parseSnbt('{Items:[{Slot:0b,Count:1b}]}'))
+  })
+
+  it('set (type errors)', () => {
+    const tag = parseSnbt(chest)
+    expect(() => NbtPath.parse('Pos[0]').set(tag, { type: 'string', value: 'x' })).to.throw('Expected Pos to be a list of strings, but found ints')
+    expect(() => NbtPath.parse('id.foo').set(tag, { type: 'string', value: 'x' })).to.throw()
+    expect(() => NbtPath.parse('{}').set(tag, { type: 'string', value: 'x' })).to.throw()
+  })
+
+  it('remove', () => {
+    const tag = parseSnbt(chest)
+    expect(NbtPath.parse('Items[{id:"minecraft:stone"}]').remove(tag)).to.equal(1)
+    expect(NbtPath.parse('Items[0].tag').remove(tag)).to.equal(1)
+    expect(NbtPath.parse('Items[0].tag').remove(tag)).to.equal(0)
+    expect(NbtPath.parse('Pos[-1]').remove(tag)).to.equal(1)
+    expect(NbtPath.parse('id').remove(tag)).to.equal(1)
+    expect(tag).to.deep.equal(parseSnbt('{Items:[{Slot:1b,id:"minecraft:dirt",Count:1b}],Pos:[I;1,2]}'))
+
+    expect(NbtPath.parse('Items[]').remove(tag)).to.equal(1)
+    expect(tag).to.deep.equal(parseSnbt('{Items:[],Pos:[I;1,2]}'))
+  })
+
+  it('remove (typed arrays)', () => {
+    const tag: NbtTag = { type: 'compound', value: { a: { type: 'intArray', value: Int32Array.of(1, 2, 3) } } }
+    expect(NbtPath.parse('a[1]').remove(tag)).to.equal(1)
+    expect(tag.value['a'].value).to.deep.equal(Int32Array.of(1, 3))
+  })
+  it('set (typed arrays)', () => {
+    const tag: NbtTag = { type: 'compound', value: {
+      a: { type: 'intArray', value: new Int32Array(0) },
+      b: { type: 'longArray', value: BigInt64Array.of(BigInt(1)) },
+    } }
+    expect(NbtPath.parse('a[]').set(tag, { type: 'int', value: 5 })).to.equal(1)
+    expect(tag.value['a'].value).to.deep.equal(Int32Array.of(5))
+    expect(NbtPath.parse('b[0]').set(tag, { type: 'long', value: [0, 2] })).to.equal(1)
+    expect(tag.value['b'].value).to.deep.equal(BigInt64Array.of(BigInt(2)))
+    expect(() => NbtPath.parse('a[]').set(tag, { type: 'byte', value: 1 })).to.throw()
+  })
+})
@@ -1,9 +1,10 @@
 import 'mocha';
 import { expect } from 'chai';
+import { NbtParseError, NbtReadOptions } from '../src/Nbt';
 import { NbtReader } from '../src/Reader';
 
-function Reader(data: number[]) {
-  return new NbtReader(new Uint8Array(data))
+function Reader(data: number[], options?: NbtReadOptions) {
+  return new NbtReader(new Uint8Array(data), false, options)
 }
 
 describe('Reader', () => {
@@ -42,21 +43,51 @@ describe('Reader', () => {
     expect(reader.long()).to.deep.equal([1546267720, 1763655956])
   })
 
+  it('long (bigint)', () => {
+    const reader = Reader([92, 42, 44, 72, 105, 31, 65, 20], { bigint: true })
+    expect(reader.long()).to.equal(BigInt('6641169290024141076'))
+  })
+
   it('byteArray', () => {
     const reader = Reader([0, 0, 0, 2, 1, 3])
     expect(reader.byteArray()).to.deep.equal([1, 3])
   })
 
+  it('byteArray (typed)', () => {
+    const reader = Reader([0, 0, 0, 2, 1, 253], { typedArrays: true })
+    expect(reader.byteArray()).to.deep.equal(Int8Array.of(1, -3))
+    expect(reader.offset).to.equal(6)
+  })
+
   it('intArray', () => {
     const reader = Reader([0, 0, 0, 2, 0, 0, 0, 1, 0, 0, 0, 3])
     expect(reader.intArray()).to.deep.equal([1, 3])
   })
 
+  it('intArray (typed)', () => {
+    const reader = Reader([0, 0, 0, 2, 0, 0, 1, 0, 255, 255, 255, 253], { typedArrays: true })
+    expect(reader.intArray()).to.deep.equal(Int32Array.of(256, -3))
+    expect(reader.offset).to.equal(12)
+
+    const reader2 = new NbtReader(new Uint8Array([2, 0, 0, 0, 0, 1, 0, 0, 253, 255, 255, 255]), true, { typedArrays: true })
+    expect(reader2.intArray()).to.deep.equal(Int32Array.of(256, -3))
+  })
+
   it('longArray', () => {
     const reader = Reader([0, 0, 0, 1, 92, 42, 44, 72, 105, 31, 65, 20])
     expect(reader.longArray()).to.deep.equal([[1546267720, 1763655956]])
   })
 
+  it('longArray (bigint)', () => {
+    const reader = Reader([0, 0, 0, 1, 92, 42, 44, 72, 105, 31, 65, 20], { bigint: true })
+    expect(reader.longArray()).to.deep.equal(BigInt64Array.of(BigInt('6641169290024141076')))
+  })
+
+  it('longArray (typed)', () => {
+    const reader = Reader([0, 0, 0, 1, 92, 42, 44, 72, 105, 31, 65, 20], { typedArrays: true })
+    expect(reader.longArray()).to.deep.equal(BigInt64Array.of(BigInt('6641169290024141076')))
+  })
+
   it('string', () => {
     const reader = Reader([0, 5, 104, 101, 108, 108, 111])
     expect(reader.string()).to.equal('hello')
@@ -67,6 +98,25 @@ describe('Reader', () => {
     expect(reader.string()).to.equal('a'.repeat(5000))
   })
 
+  it('string (modified UTF-8)', () => {
+    const reader = Reader([0, 14, 97, 192, 128, 195, 169, 228, 184, 150, 237, 160, 189, 237, 184, 128])
+    expect(reader.string()).to.equal('a\0\u00e9\u4e16\ud83d\ude00')
+  })
+
+  it('string (stringEncoding)', () => {
+    expect(new NbtReader(new Uint8Array([3, 0, 97, 192, 128]), true, { stringEncoding: 'modifiedUtf8' }).string()).to.equal('a\0')
+    expect(Reader([0, 4, 240, 159, 152, 128], { stringEncoding: 'utf8' }).string()).to.equal('\ud83d\ude00')
+  })
+
+  it('string (unsigned length)', () => {
+    const reader = Reader([255, 255, ...Array(65535).fill(97)])
+    expect(reader.string()).to.equal('a'.repeat(65535))
+  })
+
+  it('string (malformed)', () => {
+    expect(() => Reader([0, 2, 97, 128]).string()).to.throw()
+  })
+
   it('list', () => {
     const reader = Reader([1, 0, 0, 0, 2, 1, 3])
     expect(reader.list()).to.deep.equal({ type: 'byte', value: [1, 3] })
@@ -88,4 +138,52 @@ describe('Reader', () => {
     reader.offset = 2
     expect(reader.byte()).to.equal(4)
   })
+
+  it('truncated data', () => {
+    expect(() => Reader([0, 6]).int()).to.throw(NbtParseError, 'Unexpected end of data, expected 4 bytes but found 2 at offset 0')
+    expect(() => Reader([0, 3, 97]).string()).to.throw(NbtParseError)
+    expect(() => Reader([0, 0, 0, 4, 1, 2]).byteArray()).to.throw(NbtParseError, 'Length 4 exceeds the remaining 2 bytes at offset 0')
+    expect(() => Reader([127, 255, 255, 255]).longArray()).to.throw(NbtParseError)
+    expect(() => Reader([255, 255, 255, 255]).intArray()).to.throw(NbtParseError, 'Invalid negative length -1')
+  })
+
+  it('invalid tag type', () => {
+    expect(() => Reader([13, 0, 0, 0]).compound()).to.throw(NbtParseError, 'Invalid tag type 13 at offset 0')
+    expect(() => Reader([0, 0, 0, 0, 2]).list()).to.throw(NbtParseError, 'Missing type on list of length 2')
+  })
+
+  it('error path', () => {
+    const data = [9, 0, 1, 97, 10, 0, 0, 0, 2, 0, 1, 0, 1, 98]
+    try {
+      Reader(data).compound()
+      expect.fail()
+    } catch (e) {
+      expect(e).to.be.instanceOf(NbtParseError)
+      expect(e.offset).to.equal(14)
+      expect(e.path).to.equal('a[1].b')
+    }
+  })
+
+  it('maxDepth', () => {
+    const nested = (depth: number) => {
+      const data: number[] = []
+      for (let i = 1; i < depth; i += 1) {
+        data.push(9, 0, 0, 0, 1)
+      }
+      return [...data, 0, 0, 0, 0, 0]
+    }
+    expect(Reader(nested(512)).list()).to.be.an('object')
+    expect(() => Reader(nested(513)).list()).to.throw(NbtParseError, 'Exceeded the maximum depth of 512')
+    expect(() => Reader(nested(3), { maxDepth: 2 }).list()).to.throw(NbtParseError)
+  })
+
+  it('maxArrayLength', () => {
+    expect(() => Reader([0, 0, 0, 3, 1, 2, 3], { maxArrayLength: 2 }).byteArray()).to.throw(NbtParseError, 'Length 3 exceeds the limit of 2')
+    expect(() => Reader([0, 3, 97, 98, 99], { maxArrayLength: 2 }).string()).to.throw(NbtParseError)
+    expect(Reader([0, 0, 0, 2, 1, 2], { maxArrayLength: 2 }).byteArray()).to.deep.equal([1, 2])
+  })
+
+  it('maxBytes', () => {
+    expect(() => Reader([0, 0, 0, 0], { maxBytes: 3 })).to.throw(NbtParseError, 'Data of 4 bytes exceeds the limit of 3 bytes')
+  })
 })
@@ -0,0 +1,158 @@
+import 'mocha';
+import { expect } from 'chai';
+import { NamedNbtTag } from '../src/Nbt';
+import { RegionFile, RegionFileAccessor } from '../src/Region';
+
+const nbt: NamedNbtTag = { name: '', value: { foo: { type: 'byte', value: 4 } } }
+
+function bigNbt(size: number): NamedNbtTag {
+  const value = new Int8Array(size).map(() => Math.floor(Math.random() * 256) - 128)
+  return { name: '', value: { data: { type: 'byteArray', value } } }
+}
+
+function memoryAccessor() {
+  const files = new Map<string, Uint8Array>()
+  const accessor: RegionFileAccessor = {
+    read: name => files.get(name),
+    write: (name, data) => { files.set(name, data) },
+    delete: name => { files.delete(name) }
+  }
+  return { files, accessor }
+}
+
+describe('RegionFile', () => {
+  it('empty', () => {
+    const region = new RegionFile()
+    expect(region.getData()).to.deep.equal(new Uint8Array(8192))
+    expect(region.getChunkPositions()).to.deep.equal([])
+    expect(region.getChunk(0, 0)).to.be.undefined
+    expect(region.readChunk(0, 0)).to.be.undefined
+  })
+
+  it('writeChunk / readChunk', () => {
+    const region = new RegionFile()
+    region.writeChunk(0, 0, nbt, { compression: 1, timestamp: 10 })
+    region.writeChunk(1, 0, nbt, { compression: 2, timestamp: 20 })
+    region.writeChunk(2, 0, nbt, { compression: 3, timestamp: 30 })
+    region.writeChunk(3, 0, nbt, { compression: 4, timestamp: 40 })
+
+    const copy = new RegionFile(region.getData())
+    expect(copy.getChunkPositions()).to.deep.equal([[0, 0], [1, 0], [2, 0], [3, 0]])
+    for (let x = 0; x < 4; x += 1) {
+      expect(copy.readChunk(x, 0)).to.deep.equal(nbt)
+      expect(copy.getChunk(x, 0)?.compression).to.equal(x + 1)
+      expect(copy.getTimestamp(x, 0)).to.equal(10 * (x + 1))
+    }
+    expect(copy.getData().length).to.equal(6 * 4096)
+  })
+
+  it('writeChunk (invalid compression)', () => {
+    const region = new RegionFile()
+    expect(() => region.writeChunk(0, 0, nbt, { compression: 14 })).to.throw()
+  })
+
+  it('readChunk (mismatched compression)', () => {
+    const region = new RegionFile()
+    region.writeChunk(0, 0, nbt, { compression: 1 })
+    const chunk = region.getChunk(0, 0)!
+    region.setChunk({ ...chunk, compression: 2 })
+    expect(() => region.readChunk(0, 0)).to.throw()
+  })
+
+  it('replace chunk', () => {
+    const region = new RegionFile()
+    region.writeChunk(0, 0, bigNbt(6000), { compression: 3, timestamp: 1 })
+    region.writeChunk(1, 0, nbt, { compression: 3, timestamp: 2 })
+    expect(region.getStatistics().usedSectorCount).to.equal(5)
+
+    const small: NamedNbtTag = { name: '', value: { foo: { type: 'int', value: 5 } } }
+    region.writeChunk(0, 0, small, { compression: 3, timestamp: 3 })
+    expect(region.readChunk(0, 0)).to.deep.equal(small)
+    expect(region.getTimestamp(0, 0)).to.equal(3)
+    expect(region.readChunk(1, 0)).to.deep.equal(nbt)
+    expect(region.getTimestamp(1, 0)).to.equal(2)
+
+    const stats = region.getStatistics()
+    expect(stats.usedSectorCount).to.equal(4)
+    expect(stats.freeSectorCount).to.equal(1)
+    expect(stats.freeRegionCount).to.equal(1)
+  })
+
+  it('reuse freed sectors', () => {
+    const region = new RegionFile()
+    region.writeChunk(0, 0, bigNbt(6000), { compression: 3 })
+    region.writeChunk(1, 0, nbt, { compression: 3 })
+    expect(region.deleteChunk(0, 0)).to.be.true
+    expect(region.deleteChunk(0, 0)).to.be.false
+    expect(region.hasChunk(0, 0)).to.be.false
+    expect(region.getTimestamp(0, 0)).to.equal(0)
+
+    let stats = region.getStatistics()
+    expect(stats.freeSectorCount).to.equal(2)
+    expect(stats.largestFreeRegion).to.equal(2)
+    expect(stats.fragmentation).to.equal(2 / 3)
+
+    region.writeChunk(2, 0, nbt, { compression: 3 })
+    region.writeChunk(3, 0, nbt, { compression: 3 })
+    stats = region.getStatistics()
+    expect(stats.sectorCount).to.equal(5)
+    expect(stats.freeSectorCount).to.equal(0)
+    expect(stats.fragmentation).to.equal(0)
+  })
+
+  it('trailing free sectors are truncated', () => {
+    const region = new RegionFile()
+    region.writeChunk(0, 0, nbt)
+    region.writeChunk(1, 0, nbt)
+    region.deleteChunk(1, 0)
+    expect(region.getData().length).to.equal(3 * 4096)
+  })
+
+  it('external chunks', () => {
+    const { files, accessor } = memoryAccessor()
+    const region = new RegionFile(undefined, { x: -1, z: 2, external: accessor })
+    const large = bigNbt(1100000)
+    region.writeChunk(3, 4, large, { compression: 3 })
+    expect([...files.keys()]).to.deep.equal(['c.-29.68.mcc'])
+    expect(region.getData().length).to.equal(3 * 4096)
+    expect(region.getStatistics().externalChunkCount).to.equal(1)
+
+    const copy = new RegionFile(region.getData(), { x: -1, z: 2, external: accessor })
+    expect(copy.getChunkPositions()).to.deep.equal([[-29, 68]])
+    expect(copy.getChunk(3, 4)?.compression).to.equal(3)
+    expect(copy.readChunk(3, 4, { typedArrays: true })).to.deep.equal(large)
+
+    copy.writeChunk(3, 4, nbt)
+    expect(files.size).to.equal(0)
+    expect(copy.readChunk(3, 4)).to.deep.equal(nbt)
+  })
+
+  it('external chunks (no accessor)', () => {
+    const region = new RegionFile()
+    expect(() => region.writeChunk(0, 0, bigNbt(1100000), { compression: 3 })).to.throw()
+  })
+
+  it('external chunks (no accessor, replacing a chunk)', () => {
+    const region = new RegionFile()
+    region.writeChunk(0, 0, nbt)
+    expect(() => region.writeChunk(0, 0, bigNbt(1100000), { compression: 3 })).to.throw()
+    expect(region.readChunk(0, 0)).to.deep.equal(nbt)
+  })
+
+  it('external chunks (replacing an external chunk)', () => {
+    const { files, accessor } = memoryAccessor()
+    const region = new RegionFile(undefined, { external: accessor })
+    region.writeChunk(0, 0, bigNbt(1100000), { compression: 3 })
+    const large = bigNbt(1100000)
+    region.writeChunk(0, 0, large, { compression: 3 })
+    expect(files.size).to.equal(1)
+    expect(region.readChunk(0, 0, { typedArrays: true })).to.deep.equal(large)
+  })
+
+  it('invalid header entries', () => {
+    const data = new Uint8Array(8192)
+    data.set([0, 0, 5, 1, 0, 0, 1, 1])
+    const region = new RegionFile(data)
+    expect(region.getChunkPositions()).to.deep.equal([])
+  })
+})
@@ -0,0 +1,82 @@
+import 'mocha';
+import { expect } from 'chai';
+import { assertNbt, NbtSchema, NbtSchemaError, structureBlockSchema, structureSchema, validateNbt } from '../src/Schema';
+import { parseSnbt } from '../src/Snbt';
+
+const structure = `{
+  DataVersion: 2586,
+  size: [2, 1, 1],
+  palette: [{Name: "minecraft:stone"}, {Name: "minecraft:chest", Properties: {facing: "north"}}],
+  blocks: [
+    {pos: [0, 0, 0], state: 0},
+    {pos: [1, 0, 0], state: 1, nbt: {id: "minecraft:chest", Items: [{Slot: 0b, id: "minecraft:dirt", Count: 3b}]}}
+  ],
+  entities: []
+}`
+
+describe('Schema', () => {
+  it('validateNbt (valid)', () => {
+    expect(validateNbt(parseSnbt(structure), structureSchema)).to.deep.equal([])
+  })
+
+  it('validateNbt (all violations)', () => {
+    const broken = parseSnbt(`{
+      size: [2, 1],
+      palette: [{Name: "minecraft:stone", Properties: {facing: 1b}}, {}],
+      blocks: [{pos: [0s, 0s, 0s], state: 0}, {pos: [1, 0, 0], state: 1L, nbt: {Items: [{id: "x", Count: 1}]}}]
+    }`)
+    expect(validateNbt(broken, structureSchema)).to.deep.equal([
+      { path: 'size', message: 'Expected a list of length 3, but found length 2' },
+      { path: 'palette[0].Properties.facing', message: 'Expected string, but found byte' },
+      { path: 'palette[1].Name', message: 'Missing required string' },
+      { path: 'blocks[0].pos', message: 'Expected a list of ints, but found shorts' },
+      { path: 'blocks[1].state', message: 'Expected int, but found long' },
+      { path: 'blocks[1].nbt.Items[0].Count', message: 'Expected byte, but found int' },
+    ])
+  })
+
+  it('validateNbt (enum)', () => {
+    const schema: NbtSchema = { type: 'compound', fields: {
+      mode: { type: 'string', enum: ['SAVE', 'LOAD'] },
+      flag: { type: 'byte', enum: [0, 1] },
+    } }
+    expect(validateNbt(parseSnbt('{mode:"LOAD",flag:1b}'), schema)).to.deep.equal([])
+    expect(validateNbt(parseSnbt('{mode:"load",flag:2b}'), schema)).to.deep.equal([
+      { path: 'mode', message: 'Expected one of "SAVE", "LOAD", but found "load"' },
+      { path: 'flag', message: 'Expected one of 0, 1, but found 2' },
+    ])
+  })
+
+  it('validateNbt (additional fields)', () => {
+    const closed: NbtSchema = { type: 'compound', fields: { a: { type: 'int' } }, additionalFields: false }
+    expect(validateNbt(parseSnbt('{a:1,b:2}'), closed)).to.deep.equal([{ path: 'b', message: 'Unexpected tag' }])
+    const typed: NbtSchema = { type: 'compound', additionalFields: { type: 'string' } }
+    expect(validateNbt(parseSnbt('{a:"x",b:2}'), typed)).to.deep.equal([{ path: 'b', message: 'Expected string, but found int' }])
+    expect(validateNbt(parseSnbt('1'), typed)).to.deep.equal([{ path: '', message: 'Expected compound, but found int' }])
+  })
+
+  it('validateNbt (arrays)', () => {
+    const schema: NbtSchema = { type: 'intArray', length: 4 }
+    expect(validateNbt(parseSnbt('[I;1,2,3,4]'), schema)).to.deep.equal([])
+    expect(validateNbt({ type: 'intArray', value: new Int32Array(2) }, schema)).to.deep.equal([
+      { path: '', message: 'Expected an array of length 4, but found length 2' },
+    ])
+  })
+
+  it('structureBlockSchema', () => {
+    const tag = parseSnbt('{id:"minecraft:structure_block",name:"a",posX:0,posY:1,posZ:0,sizeX:5,sizeY:5,sizeZ:5,rotation:"NONE",mirror:"NONE",mode:"SAVE",ignoreEntities:1b,powered:0b,showair:0b,showboundingbox:1b,integrity:1.0f,seed:0L}')
+    expect(validateNbt(tag, structureBlockSchema)).to.deep.equal([])
+  })
+
+  it('assertNbt', () => {
+    expect(() => assertNbt(parseSnbt(structure), structureSchema)).not.to.throw()
+    try {
+      assertNbt(parseSnbt('{palette:[]}'), structureSchema)
+      expect.fail()
+    } catch (e) {
+      expect(e).to.be.instanceOf(NbtSchemaError)
+      expect(e.violations).to.have.length(2)
+      expect(e.message).to.equal('size: Missing required list\nblocks: Missing required list')
+    }
+  })
+})
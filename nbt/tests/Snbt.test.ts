@@ -0,0 +1,125 @@
+import 'mocha';
+import { expect } from 'chai';
+import { NbtTag } from '../src/Nbt';
+import { parseSnbt, SnbtParseError, stringifySnbt } from '../src/Snbt';
+
+describe('Snbt', () => {
+  it('parseSnbt (numbers)', () => {
+    expect(parseSnbt('1b')).to.deep.equal({ type: 'byte', value: 1 })
+    expect(parseSnbt('-2S')).to.deep.equal({ type: 'short', value: -2 })
+    expect(parseSnbt('400000')).to.deep.equal({ type: 'int', value: 400000 })
+    expect(parseSnbt('3L')).to.deep.equal({ type: 'long', value: [0, 3] })
+    expect(parseSnbt('-1l')).to.deep.equal({ type: 'long', value: [-1, -1] })
+    expect(parseSnbt('1.5f')).to.deep.equal({ type: 'float', value: 1.5 })
+    expect(parseSnbt('2d')).to.deep.equal({ type: 'double', value: 2 })
+    expect(parseSnbt('2.5')).to.deep.equal({ type: 'double', value: 2.5 })
+    expect(parseSnbt('true')).to.deep.equal({ type: 'byte', value: 1 })
+    expect(parseSnbt('false')).to.deep.equal({ type: 'byte', value: 0 })
+  })
+
+  it('parseSnbt (out of range numbers)', () => {
+    expect(parseSnbt('128b')).to.deep.equal({ type: 'string', value: '128b' })
+    expect(parseSnbt('2147483648')).to.deep.equal({ type: 'string', value: '2147483648' })
+    expect(parseSnbt('9223372036854775807L')).to.deep.equal({ type: 'long', value: [2147483647, -1] })
+  })
+
+  it('parseSnbt (strings)', () => {
+    expect(parseSnbt('hello')).to.deep.equal({ type: 'string', value: 'hello' })
+    expect(parseSnbt('"hello world"')).to.deep.equal({ type: 'string', value: 'hello world' })
+    expect(parseSnbt('\'say "hi"\'')).to.deep.equal({ type: 'string', value: 'say "hi"' })
+    expect(parseSnbt('"a\\\\b\\"c\\n\\u0041"')).to.deep.equal({ type: 'string', value: 'a\\b"c\nA' })
+  })
+
+  it('parseSnbt (compound)', () => {
+    expect(parseSnbt('{ foo: 4b, "bar baz": \'x\', nested: {} }')).to.deep.equal({ type: 'compound', value: {
+      foo: { type: 'byte', value: 4 },
+      'bar baz': { type: 'string', value: 'x' },
+      nested: { type: 'compound', value: {} }
+    } })
+  })
+
+  it('parseSnbt (lists)', () => {
+    expect(parseSnbt('[]')).to.deep.equal({ type: 'list', value: { type: 'end', value: [] } })
+    expect(parseSnbt('[1, 2, 3]')).to.deep.equal({ type: 'list', value: { type: 'int', value: [1, 2, 3] } })
+    expect(parseSnbt('[{a: 1}, {}]')).to.deep.equal({ type: 'list', value: { type: 'compound', value: [
+      { a: { type: 'int', value: 1 } }, {}
+    ] } })
+  })
+
+  it('parseSnbt (arrays)', () => {
+    expect(parseSnbt('[B; 1b, -2b]')).to.deep.equal({ type: 'byteArray', value: [1, -2] })
+    expect(parseSnbt('[I;1,2]')).to.deep.equal({ type: 'intArray', value: [1, 2] })
+    expect(parseSnbt('[L; 1L, -2]')).to.deep.equal({ type: 'longArray', value: [[0, 1], [-1, -2]] })
+    expect(parseSnbt('[I;]')).to.deep.equal({ type: 'intArray', value: [] })
+  })
+
+  it('parseSnbt (errors)', () => {
+    expect(() => parseSnbt('[1, 2b]')).to.throw(SnbtParseError)
+    expect(() => parseSnbt('[B; 1s]')).to.throw(SnbtParseError)
+    expect(() => parseSnbt('{a: 1} x')).to.throw(SnbtParseError)
+    expect(() => parseSnbt('"unclosed')).to.throw(SnbtParseError)
+    expect(() => parseSnbt('')).to.throw(SnbtParseError)
+  })
+
+  it('parseSnbt (error position)', () => {
+    try {
+      parseSnbt('{\n  foo: 1,\n  bar 2\n}')
+      expect.fail()
+    } catch (e) {
+      expect(e).to.be.instanceOf(SnbtParseError)
+      expect(e.line).to.equal(3)
+      expect(e.column).to.equal(7)
+      expect(e.offset).to.equal(18)
+      expect(e.reason).to.equal("Expected ':'")
+    }
+  })
+
+  it('stringifySnbt', () => {
+    const tag: NbtTag = { type: 'compound', value: {
+      a: { type: 'byte', value: 1 },
+      b: { type: 'short', value: 2 },
+      c: { type: 'long', value: [0, 3] },
+      d: { type: 'float', value: Math.fround(0.1) },
+      e: { type: 'double', value: 2 },
+      'f g': { type: 'string', value: 'say "hi"' },
+      h: { type: 'list', value: { type: 'int', value: [1, 2] } },
+      i: { type: 'byteArray', value: [1, -2] },
+      j: { type: 'longArray', value: [[-1, -1]] }
+    } }
+    expect(stringifySnbt(tag)).to.equal('{a:1b,b:2s,c:3L,d:0.1f,e:2d,"f g":\'say "hi"\',h:[1,2],i:[B;1b,-2b],j:[L;-1L]}')
+  })
+
+  it('stringifySnbt (indent)', () => {
+    const tag: NbtTag = { type: 'compound', value: {
+      a: { type: 'list', value: { type: 'compound', value: [
+        { b: { type: 'string', value: 'x' } }
+      ] } },
+      c: { type: 'intArray', value: [1, 2] },
+      d: { type: 'compound', value: {} }
+    } }
+    expect(stringifySnbt(tag, { indent: 2 })).to.equal([
+      '{',
+      '  a: [',
+      '    {',
+      '      b: "x"',
+      '    }',
+      '  ],',
+      '  c: [I; 1, 2],',
+      '  d: {}',
+      '}'
+    ].join('\n'))
+  })
+
+  it('stringifySnbt (non-finite numbers)', () => {
+    expect(() => stringifySnbt({ type: 'double', value: NaN })).to.throw('Cannot stringify non-finite double NaN')
+    expect(() => stringifySnbt({ type: 'float', value: Infinity })).to.throw('Cannot stringify non-finite float Infinity')
+    expect(() => stringifySnbt({ type: 'list', value: { type: 'double', value: [1, -Infinity] } })).to.throw('Cannot stringify non-finite double -Infinity')
+  })
+
+  it('round trip', () => {
+    const text = '{id:"minecraft:chest",Items:[{Slot:0b,Count:64b,id:"minecraft:stone",tag:{display:{Name:\'{"text":"\\\\o/"}\'}}}],UUID:[I;1,-2,3,4],Seed:-4172144997902289642L}'
+    const tag = parseSnbt(text)
+    expect(stringifySnbt(tag)).to.equal(text)
+    expect(parseSnbt(stringifySnbt(tag, { indent: '\t' }))).to.deep.equal(tag)
+  })
+})
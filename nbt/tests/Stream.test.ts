@@ -0,0 +1,154 @@
+import 'mocha';
+import { expect } from 'chai';
+import pako from 'pako'
+import { NamedNbtTag, NbtParseError, NbtTag, writeUncompressed } from '../src/Nbt';
+import { NbtStreamHandler, NbtStreamReader, readNbtStream } from '../src/Stream';
+
+const nbt: NamedNbtTag = { name: 'structure', value: {
+  size: { type: 'list', value: { type: 'int', value: [2, 1, 1] } },
+  palette: { type: 'list', value: { type: 'compound', value: [
+    { Name: { type: 'string', value: 'minecraft:stone' } },
+    { Name: { type: 'string', value: 'minecraft:chest' }, Properties: { type: 'compound', value: { facing: { type: 'string', value: 'north' } } } },
+  ] } },
+  blocks: { type: 'list', value: { type: 'compound', value: [
+    { pos: { type: 'list', value: { type: 'int', value: [0, 0, 0] } }, state: { type: 'int', value: 0 } },
+    { pos: { type: 'list', value: { type: 'int', value: [1, 0, 0] } }, state: { type: 'int', value: 1 }, nbt: { type: 'compound', value: {
+      Items: { type: 'list', value: { type: 'end', value: [] } },
+    } } },
+  ] } },
+  data: { type: 'byteArray', value: [1, 2, 3, 4, 5] },
+  seed: { type: 'long', value: [1, 2] },
+  DataVersion: { type: 'int', value: 2586 },
+} }
+
+function feed(reader: NbtStreamReader, data: Uint8Array, size: number) {
+  for (let i = 0; i < data.length; i += size) {
+    reader.push(data.subarray(i, i + size))
+  }
+  reader.end()
+}
+
+function events(data: Uint8Array, size: number, handler: NbtStreamHandler = {}) {
+  const result: string[] = []
+  feed(new NbtStreamReader({
+    start: name => result.push(`start ${name}`),
+    startCompound: path => result.push(`{ ${path.join('.')}`),
+    endCompound: path => result.push(`} ${path.join('.')}`),
+    startList: (type, length, path) => result.push(`[ ${path.join('.')} ${type} ${length}`),
+    endList: path => result.push(`] ${path.join('.')}`),
+    value: (tag, path) => result.push(`${path.join('.')} = ${JSON.stringify(tag)}`),
+    end: () => result.push('end'),
+    ...handler,
+  }), data, size)
+  return result
+}
+
+/** Rebuilds the tree from events, to check that streaming sees everything */
+function rebuild(data: Uint8Array, size: number) {
+  const result: NamedNbtTag = { name: '', value: {} }
+  const stack: NbtTag[] = []
+  const add = (tag: NbtTag, path: (string | number)[]) => {
+    const parent = stack[stack.length - 1]
+    if (parent?.type === 'compound') {
+      parent.value[path[path.length - 1]] = tag
+    } else if (parent?.type === 'list') {
+      (parent.value as any).type = tag.type;
+      (parent.value.value as any[]).push(tag.value)
+    }
+  }
+  feed(new NbtStreamReader({
+    start: name => result.name = name,
+    startCompound: path => {
+      const tag: NbtTag = { type: 'compound', value: path.length === 0 ? result.value : {} }
+      if (path.length > 0) add(tag, path)
+      stack.push(tag)
+    },
+    startList: (type, length, path) => {
+      const tag: NbtTag = { type: 'list', value: { type, value: [] } }
+      add(tag, path)
+      stack.push(tag)
+    },
+    endCompound: () => { stack.pop() },
+    endList: () => { stack.pop() },
+    value: add,
+  }), data, size)
+  return result
+}
+
+describe('Stream', () => {
+  const raw = writeUncompressed(nbt)
+
+  it('events', () => {
+    const result = events(writeUncompressed({ name: 'a', value: {
+      b: { type: 'list', value: { type: 'short', value: [1, 2] } },
+      c: { type: 'compound', value: { d: { type: 'string', value: 'x' } } },
+    } }), 1)
+    expect(result).to.deep.equal([
+      'start a',
+      '{ ',
+      '[ b short 2',
+      'b.0 = {"type":"short","value":1}',
+      'b.1 = {"type":"short","value":2}',
+      '] b',
+      '{ c',
+      'c.d = {"type":"string","value":"x"}',
+      '} c',
+      '} ',
+      'end',
+    ])
+  })
+
+  it('chunk sizes', () => {
+    const expected = events(raw, raw.length)
+    for (const size of [1, 2, 3, 7, 64]) {
+      expect(events(raw, size)).to.deep.equal(expected)
+      expect(rebuild(raw, size)).to.deep.equal(nbt)
+    }
+  })
+
+  it('gzip', () => {
+    const compressed = pako.gzip(raw)
+    expect(rebuild(compressed, 1)).to.deep.equal(nbt)
+    expect(rebuild(compressed, 100)).to.deep.equal(nbt)
+  })
+
+  it('skip', () => {
+    const result = events(raw, 5, {
+      key: name => name === 'palette' || name === 'data' || name === 'nbt' ? 'skip' : undefined,
+      element: (_, __, path) => path[0] === 'size' ? 'skip' : undefined,
+    })
+    expect(result.filter(e => /palette|data|nbt|size/.test(e))).to.deep.equal(['[ size int 3', '] size'])
+    expect(result).to.include('DataVersion = {"type":"int","value":2586}')
+  })
+
+  it('value', () => {
+    const blocks: NbtTag[] = []
+    feed(new NbtStreamReader({
+      key: (name, _, path) => path.length === 1 && name !== 'blocks' ? 'skip' : undefined,
+      element: () => 'value',
+      value: tag => blocks.push(tag),
+    }), raw, 3)
+    expect(blocks).to.deep.equal((nbt.value['blocks'].value as any).value.map((v: any) => ({ type: 'compound', value: v })))
+  })
+
+  it('invalid', () => {
+    expect(() => feed(new NbtStreamReader({}), raw.subarray(0, raw.length - 1), 10)).to.throw(NbtParseError, 'Unexpected end of stream')
+    expect(() => feed(new NbtStreamReader({}), new Uint8Array([8, 0, 0]), 10)).to.throw(NbtParseError, 'Top tag should be a compound')
+    expect(() => feed(new NbtStreamReader({}), new Uint8Array([10, 0, 0, 20]), 10)).to.throw(NbtParseError, 'Invalid tag type 20')
+    expect(() => feed(new NbtStreamReader({}, { maxBytes: 10 }), raw, 4)).to.throw(NbtParseError, 'Data exceeds the limit of 10 bytes')
+  })
+
+  it('readNbtStream', async () => {
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        for (let i = 0; i < raw.length; i += 16) {
+          controller.enqueue(raw.slice(i, i + 16))
+        }
+        controller.close()
+      }
+    })
+    const keys: string[] = []
+    await readNbtStream(stream, { key: (name, _, path) => { if (path.length === 1) keys.push(name) } })
+    expect(keys).to.deep.equal(Object.keys(nbt.value))
+  })
+})
@@ -0,0 +1,11 @@
+import 'mocha';
+import { expect } from 'chai';
+import { stringifyNbtTagPath } from '../src/TagPath';
+
+describe('TagPath', () => {
+  it('stringifyNbtTagPath', () => {
+    expect(stringifyNbtTagPath([])).to.equal('')
+    expect(stringifyNbtTagPath(['Level', 'Sections', 3, 'Y'])).to.equal('Level.Sections[3].Y')
+    expect(stringifyNbtTagPath(['a b', 0, 'c.d'])).to.equal('"a b"[0]."c.d"')
+  })
+})
@@ -1,7 +1,7 @@
 import 'mocha';
 import { expect } from 'chai';
-import { getTag, getListTag, getOptional } from '../src/TagUtils';
-import { NbtValues } from '../src/Nbt';
+import { cloneNbt, getTag, getListTag, getOptional, matchesNbt, longToBigInt, longToPair, longArrayToBigInt, longArrayToPairs } from '../src/TagUtils';
+import { NbtTag, NbtValues } from '../src/Nbt';
 
 describe('TagUtils', () => {
   const data: NbtValues['compound'] = {
@@ -33,4 +33,47 @@ describe('TagUtils', () => {
     expect(getOptional(() => getTag(data, 'invalid', 'int'), null)).to.be.null
     expect(getOptional(() => getTag(data, 'invalid', 'int'), 4)).to.equal(4)
   })
+
+  it('longToBigInt', () => {
+    expect(longToBigInt([1546267720, 1763655956])).to.equal(BigInt('6641169290024141076'))
+    expect(longToBigInt([-1, -1])).to.equal(BigInt(-1))
+    expect(longToBigInt([0, -1])).to.equal(BigInt(4294967295))
+    expect(longToBigInt(BigInt(5))).to.equal(BigInt(5))
+  })
+
+  it('longToPair', () => {
+    expect(longToPair(BigInt('6641169290024141076'))).to.deep.equal([1546267720, 1763655956])
+    expect(longToPair(BigInt(-1))).to.deep.equal([-1, -1])
+    expect(longToPair(BigInt('-9223372036854775808'))).to.deep.equal([-2147483648, 0])
+    expect(longToPair([1, 2])).to.deep.equal([1, 2])
+  })
+
+  it('longArrayToBigInt', () => {
+    expect(longArrayToBigInt([[0, 1], [-1, -2]])).to.deep.equal(BigInt64Array.of(BigInt(1), BigInt(-2)))
+  })
+
+  it('longArrayToPairs', () => {
+    expect(longArrayToPairs(BigInt64Array.of(BigInt(1), BigInt(-2)))).to.deep.equal([[0, 1], [-1, -2]])
+  })
+
+  it('matchesNbt', () => {
+    const tag: NbtTag = { type: 'compound', value: data }
+    expect(matchesNbt({ type: 'compound', value: {} }, tag)).to.be.true
+    expect(matchesNbt({ type: 'compound', value: { foo: { type: 'int', value: 5 } } }, tag)).to.be.true
+    expect(matchesNbt({ type: 'compound', value: { foo: { type: 'int', value: 6 } } }, tag)).to.be.false
+    expect(matchesNbt({ type: 'compound', value: { foo: { type: 'short', value: 5 } } }, tag)).to.be.false
+    expect(matchesNbt({ type: 'compound', value: { baz: { type: 'list', value: { type: 'byte', value: [3] } } } }, tag)).to.be.true
+    expect(matchesNbt({ type: 'compound', value: { baz: { type: 'list', value: { type: 'byte', value: [3] } } } }, tag, false)).to.be.false
+    expect(matchesNbt({ type: 'compound', value: { baz: { type: 'list', value: { type: 'end', value: [] } } } }, tag)).to.be.false
+    expect(matchesNbt(tag, tag, false)).to.be.true
+    expect(matchesNbt({ type: 'long', value: [0, 5] }, { type: 'long', value: BigInt(5) })).to.be.true
+  })
+
+  it('cloneNbt', () => {
+    const tag: NbtTag = { type: 'compound', value: data }
+    const clone = cloneNbt(tag)
+    expect(clone).to.deep.equal(tag)
+    expect(clone.value).to.not.equal(data)
+    expect((clone.value['baz'].value as any).value).to.not.equal((data['baz'].value as any).value)
+  })
 })
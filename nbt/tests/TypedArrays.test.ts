@@ -0,0 +1,36 @@
+import 'mocha';
+import { expect } from 'chai';
+import { readUncompressed, writeUncompressed } from '../src/Nbt';
+import { getListTag, getTag, longArrayToPairs } from '../src/TagUtils';
+import { regionChunk } from '../bench/data';
+
+describe('TypedArrays', () => {
+  it('region chunk', () => {
+    const raw = writeUncompressed(regionChunk())
+
+    const plain = readUncompressed(raw)
+    const typed = readUncompressed(raw, false, { typedArrays: true })
+    expect(writeUncompressed(typed)).to.deep.equal(raw)
+
+    const plainLevel = getTag(plain.value, 'Level', 'compound')
+    const typedLevel = getTag(typed.value, 'Level', 'compound')
+    const plainBiomes = getTag(plainLevel, 'Biomes', 'intArray')
+    const typedBiomes = getTag(typedLevel, 'Biomes', 'intArray')
+    expect(plainBiomes).to.be.an('array')
+    expect(typedBiomes).to.be.instanceOf(Int32Array)
+    expect(Array.from(typedBiomes)).to.deep.equal(plainBiomes)
+
+    const plainSections = getListTag(plainLevel, 'Sections', 'compound')
+    const typedSections = getListTag(typedLevel, 'Sections', 'compound')
+    expect(typedSections).to.have.length(plainSections.length)
+    typedSections.forEach((typedSection, i) => {
+      const section = plainSections[i]
+      const skyLight = getTag(typedSection, 'SkyLight', 'byteArray')
+      expect(skyLight).to.be.instanceOf(Int8Array)
+      expect(Array.from(skyLight)).to.deep.equal(getTag(section, 'SkyLight', 'byteArray'))
+      const blockStates = getTag(typedSection, 'BlockStates', 'longArray')
+      expect(blockStates).to.be.instanceOf(BigInt64Array)
+      expect(longArrayToPairs(blockStates)).to.deep.equal(getTag(section, 'BlockStates', 'longArray'))
+    })
+  })
+})
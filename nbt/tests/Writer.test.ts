@@ -50,30 +50,79 @@ describe('Writer', () => {
     matches(writer, [92, 42, 44, 72, 105, 31, 65, 20])
   })
 
+  it('long (bigint)', () => {
+    const writer = new NbtWriter()
+    writer.long(BigInt('6641169290024141076'))
+    matches(writer, [92, 42, 44, 72, 105, 31, 65, 20])
+  })
+
   it('byteArray', () => {
     const writer = new NbtWriter()
     writer.byteArray([1, 3])
     matches(writer, [0, 0, 0, 2, 1, 3])
   })
 
+  it('byteArray (typed)', () => {
+    const writer = new NbtWriter()
+    writer.byteArray(Int8Array.of(1, -3))
+    matches(writer, [0, 0, 0, 2, 1, 253])
+  })
+
   it('intArray', () => {
     const writer = new NbtWriter()
     writer.intArray([1, 3])
     matches(writer, [0, 0, 0, 2, 0, 0, 0, 1, 0, 0, 0, 3])
   })
 
+  it('intArray (typed)', () => {
+    const writer = new NbtWriter()
+    writer.intArray(Int32Array.of(256, -3))
+    matches(writer, [0, 0, 0, 2, 0, 0, 1, 0, 255, 255, 255, 253])
+
+    const writer2 = new NbtWriter(true)
+    writer2.intArray(Int32Array.of(256, -3))
+    matches(writer2, [2, 0, 0, 0, 0, 1, 0, 0, 253, 255, 255, 255])
+  })
+
   it('longArray', () => {
     const writer = new NbtWriter()
     writer.longArray([[1546267720, 1763655956]])
     matches(writer, [0, 0, 0, 1, 92, 42, 44, 72, 105, 31, 65, 20])
   })
 
+  it('longArray (bigint)', () => {
+    const writer = new NbtWriter()
+    writer.longArray(BigInt64Array.of(BigInt('6641169290024141076')))
+    matches(writer, [0, 0, 0, 1, 92, 42, 44, 72, 105, 31, 65, 20])
+  })
+
   it('string', () => {
     const writer = new NbtWriter()
     writer.string('hello')
     matches(writer, [0, 5, 104, 101, 108, 108, 111])
   })
 
+  it('string (modified UTF-8)', () => {
+    const writer = new NbtWriter()
+    writer.string('a\0\u00e9\u4e16\ud83d\ude00')
+    matches(writer, [0, 14, 97, 192, 128, 195, 169, 228, 184, 150, 237, 160, 189, 237, 184, 128])
+  })
+
+  it('string (stringEncoding)', () => {
+    const writer = new NbtWriter(true, { stringEncoding: 'modifiedUtf8' })
+    writer.string('a\0')
+    matches(writer, [3, 0, 97, 192, 128])
+    const utf8 = new NbtWriter(false, { stringEncoding: 'utf8' })
+    utf8.string('\ud83d\ude00')
+    matches(utf8, [0, 4, 240, 159, 152, 128])
+  })
+
+  it('string (too long)', () => {
+    const writer = new NbtWriter()
+    expect(() => writer.string('a'.repeat(65535))).to.not.throw()
+    expect(() => writer.string('\u4e16'.repeat(21846))).to.throw('exceeds the maximum length of 65535 bytes')
+  })
+
   it('string (large)', () => {
     const writer = new NbtWriter()
     writer.string('a'.repeat(5000))
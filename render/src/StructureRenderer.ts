@@ -3,7 +3,7 @@ import { TextureAtlasProvider } from "./TextureAtlas";
 import { BlockModelProvider } from "./BlockModel";
 import { BlockDefinitionProvider } from "./BlockDefinition";
 import { mergeFloat32Arrays, transformVectors } from "./Util";
-import { BlockPos, StructureProvider } from "@webmc/core";
+import { BlockPos, BlockState, StructureChange, StructureProvider } from "@webmc/core";
 import { ShaderProgram } from "./ShaderProgram";
 import { SpecialRenderer, SpecialRenderers } from "./SpecialRenderer";
 
@@ -131,6 +131,7 @@ type Chunk = {
   indices: number[],
   indexOffset: number,
   buffer?: StructureBuffers
+  invisibleBlockBuffer?: GridBuffers
 }
 
 export class StructureRenderer {
@@ -142,12 +143,12 @@ export class StructureRenderer {
 
   private gridBuffers: GridBuffers
   private outlineBuffers: GridBuffers
-  private invisibleBlockBuffers: GridBuffers | undefined
   private atlasTexture: WebGLTexture
   private projMatrix: mat4
   private activeShader: WebGLProgram
   private chunkSize: number
   private useInvisibleBlockBuffer: boolean
+  private unsubscribe: () => void
 
   constructor(
     private gl: WebGLRenderingContext,
@@ -171,9 +172,10 @@ export class StructureRenderer {
     this.colorShaderProgram = new ShaderProgram(gl, vsColor, fsColor).getProgram()
 
     this.updateStructureBuffers()
+    this.unsubscribe = this.subscribe(structure)
     this.gridBuffers = this.getGridBuffers()
     this.outlineBuffers = this.getOutlineBuffers()
-    this.invisibleBlockBuffers = this.getInvisibleBlockBuffers()
+    this.updateInvisibleBlockBuffers()
     this.atlasTexture = this.getBlockTexture()
     this.projMatrix = this.getPerspective()
     this.activeShader = this.shaderProgram
@@ -181,10 +183,114 @@ export class StructureRenderer {
   }
 
   public setStructure(structure: StructureProvider) {
+    this.unsubscribe()
     this.structure = structure
+    this.unsubscribe = this.subscribe(structure)
     this.updateStructureBuffers()
+    this.updateGridBuffers()
+  }
+
+  /** Stops listening to changes of the structure */
+  public dispose() {
+    this.unsubscribe()
+  }
+
+  private subscribe(structure: StructureProvider) {
+    return structure.onChange?.(change => this.onStructureChange(change)) ?? (() => {})
+  }
+
+  private onStructureChange(change: StructureChange) {
+    if (change.type === 'size') {
+      this.updateStructureBuffers()
+      this.updateGridBuffers()
+      return
+    }
+    if (change.type === 'palette') {
+      this.updateStructureBuffers()
+      this.updateInvisibleBlockBuffers()
+      return
+    }
+    const positions = change.type === 'block' ? [change.pos] : change.positions
+    this.updateStructureBuffers(this.getAffectedChunks(positions))
+    this.updateInvisibleBlockBuffers(this.getAffectedChunks(positions, false))
+  }
+
+  /**
+   * Returns the chunks containing the positions, and unless `neighbors` is
+   * false, the neighboring chunks of positions at a chunk border, whose faces
+   * may no longer be culled
+   */
+  private getAffectedChunks(positions: BlockPos[], neighbors = true) {
+    const chunks = new Map<string, vec3>()
+    const offsets = neighbors
+      ? [[0, 0, 0], [1, 0, 0], [-1, 0, 0], [0, 1, 0], [0, -1, 0], [0, 0, 1], [0, 0, -1]]
+      : [[0, 0, 0]]
+    positions.forEach(pos => offsets.forEach(offset => {
+      const chunkPos: vec3 = [0, 1, 2].map(i => Math.floor((pos[i] + offset[i]) / this.chunkSize)) as vec3
+      chunks.set(chunkPos.join(','), chunkPos)
+    }))
+    return [...chunks.values()]
+  }
+
+  /** Returns the positions of all chunks overlapping the structure */
+  private getStructureChunks() {
+    const size = this.structure.getSize()
+    const chunks: vec3[] = []
+    for (let x = 0; x < size[0]; x += this.chunkSize) {
+      for (let y = 0; y < size[1]; y += this.chunkSize) {
+        for (let z = 0; z < size[2]; z += this.chunkSize) {
+          chunks.push([x / this.chunkSize, y / this.chunkSize, z / this.chunkSize])
+        }
+      }
+    }
+    return chunks
+  }
+
+  /** Calls `fn` for each position inside both the chunk and the structure */
+  private forEachChunkPosition(chunkPos: vec3, fn: (pos: BlockPos) => void) {
+    const size = this.structure.getSize()
+    const min = [0, 1, 2].map(i => Math.max(0, chunkPos[i] * this.chunkSize))
+    const max = [0, 1, 2].map(i => Math.min(size[i], (chunkPos[i] + 1) * this.chunkSize))
+    for (let x = min[0]; x < max[0]; x += 1) {
+      for (let y = min[1]; y < max[1]; y += 1) {
+        for (let z = min[2]; z < max[2]; z += 1) {
+          fn([x, y, z])
+        }
+      }
+    }
+  }
+
+  private updateGridBuffers() {
+    this.deleteGridBuffers(this.gridBuffers)
     this.gridBuffers = this.getGridBuffers()
-    this.invisibleBlockBuffers = this.getInvisibleBlockBuffers()
+    this.updateInvisibleBlockBuffers()
+  }
+
+  /** Rebuilds the invisible block buffers of the chunks, or of all chunks if none are given */
+  private updateInvisibleBlockBuffers(chunkPositions?: vec3[]) {
+    if (!this.useInvisibleBlockBuffer)
+      return
+    if (!chunkPositions) {
+      this.chunks.forEach(x => x.forEach(y => y.forEach(chunk => {
+        if (chunk.invisibleBlockBuffer) {
+          this.deleteGridBuffers(chunk.invisibleBlockBuffer)
+          chunk.invisibleBlockBuffer = undefined
+        }
+      })))
+    }
+    const positions = chunkPositions ?? this.getStructureChunks()
+    positions.forEach(chunkPos => {
+      const chunk = this.getChunk(chunkPos)
+      if (chunk.invisibleBlockBuffer) {
+        this.deleteGridBuffers(chunk.invisibleBlockBuffer)
+      }
+      chunk.invisibleBlockBuffer = this.getInvisibleBlockBuffers(chunkPos)
+    })
+  }
+
+  private deleteGridBuffers(buffers: GridBuffers) {
+    this.gl.deleteBuffer(buffers.position)
+    this.gl.deleteBuffer(buffers.color)
   }
 
   private initialize() {
@@ -297,33 +403,15 @@ export class StructureRenderer {
       }
     }
 
-    if (!chunkPositions){
-      this.chunks.forEach(x => x.forEach(y => y.forEach(chunk => {
-        resetChunk(chunk)
-      })))
-    } else { 
-      chunkPositions.forEach(chunkPos => {
-        const chunk = this.getChunk(chunkPos)
-        resetChunk(chunk)
-      });
-    }
-
-    let buffers
-    for (const b of this.structure.getBlocks()) {
+    const addBlock = (b: { pos: BlockPos, state: BlockState }) => {
       const blockName = b.state.getName()
-      const blockProps = b.state.getProperties()
       const defaultProps = this.resources.getDefaultBlockProperties(blockName) ?? {}
-      Object.entries(defaultProps).forEach(([k, v]) => {
-        if (!blockProps[k]) blockProps[k] = v
-      })
+      const blockProps = { ...defaultProps, ...b.state.getProperties() }
 
       const chunkPos: vec3 = [Math.floor(b.pos[0]/this.chunkSize), Math.floor(b.pos[1]/this.chunkSize), Math.floor(b.pos[2]/this.chunkSize)]
-
-      if (chunkPositions && !chunkPositions.some(pos => vec3.equals(pos, chunkPos)))
-        continue
-
       const chunk = this.getChunk(chunkPos)
 
+      let buffers
       try {
         const blockDefinition = this.resources.getBlockDefinition(blockName)
         if (blockDefinition) {
@@ -352,12 +440,25 @@ export class StructureRenderer {
     }
 
     if (!chunkPositions){
+      this.chunks.forEach(x => x.forEach(y => y.forEach(chunk => {
+        resetChunk(chunk)
+      })))
+      for (const b of this.structure.getBlocks()) {
+        addBlock(b)
+      }
       this.chunks.forEach(x => x.forEach(y => y.forEach(chunk => {
         refreshBuffer(chunk)
       })))
     } else {
       chunkPositions.forEach(chunkPos => {
         const chunk = this.getChunk(chunkPos)
+        resetChunk(chunk)
+        this.forEachChunkPosition(chunkPos, pos => {
+          const block = this.structure.getBlock(pos)
+          if (block) {
+            addBlock(block)
+          }
+        })
         refreshBuffer(chunk)
       })
     }
@@ -414,30 +515,22 @@ export class StructureRenderer {
     }
   }
 
-  private getInvisibleBlockBuffers(): GridBuffers | undefined {
-    if (!this.useInvisibleBlockBuffer)
-      return undefined
-
-    const size = this.structure.getSize()
+  private getInvisibleBlockBuffers(chunkPos: vec3): GridBuffers {
     const position: number[] = []
     const color: number[] = []
 
-    for (let x = 0; x < size[0]; x += 1) {
-      for (let y = 0; y < size[1]; y += 1) {
-        for (let z = 0; z < size[2]; z += 1) {
-          const block = this.structure.getBlock([x, y, z])
-          if (block === undefined)
-            continue;
-          if (block === null) {
-            this.addCube(position, color, [1, 0.25, 0.25], [x + 0.4375, y + 0.4375, z + 0.4375], [x + 0.5625, y + 0.5625, z + 0.5625])
-          } else if (block.state.getName() === 'minecraft:air') {
-            this.addCube(position, color, [0.5, 0.5, 1], [x + 0.375, y + 0.375, z + 0.375], [x + 0.625, y + 0.625, z + 0.625])
-          } else if (block.state.getName() === 'minecraft:cave_air') {
-            this.addCube(position, color, [0.5, 1, 0.5], [x + 0.375, y + 0.375, z + 0.375], [x + 0.625, y + 0.625, z + 0.625])
-          } 
-        }
+    this.forEachChunkPosition(chunkPos, ([x, y, z]) => {
+      const block = this.structure.getBlock([x, y, z])
+      if (block === undefined)
+        return
+      if (block === null) {
+        this.addCube(position, color, [1, 0.25, 0.25], [x + 0.4375, y + 0.4375, z + 0.4375], [x + 0.5625, y + 0.5625, z + 0.5625])
+      } else if (block.state.getName() === 'minecraft:air') {
+        this.addCube(position, color, [0.5, 0.5, 1], [x + 0.375, y + 0.375, z + 0.375], [x + 0.625, y + 0.625, z + 0.625])
+      } else if (block.state.getName() === 'minecraft:cave_air') {
+        this.addCube(position, color, [0.5, 1, 0.5], [x + 0.375, y + 0.375, z + 0.375], [x + 0.625, y + 0.625, z + 0.625])
       }
-    }
+    })
 
     return {
       position: this.createBuffer(this.gl.ARRAY_BUFFER, new Float32Array(position)),
@@ -493,12 +586,15 @@ export class StructureRenderer {
       return
     this.setShader(this.gridShaderProgram)
 
-    this.setVertexAttr('vertPos', 3, this.invisibleBlockBuffers!.position)
-    this.setVertexAttr('vertColor', 3, this.invisibleBlockBuffers!.color)
     this.setUniform('mView', viewMatrix)
     this.setUniform('mProj', this.projMatrix)
 
-    this.gl.drawArrays(this.gl.LINES, 0, this.invisibleBlockBuffers!.length)
+    this.chunks.forEach(x => x.forEach(y => y.forEach(chunk => {
+      if (!chunk.invisibleBlockBuffer) return
+      this.setVertexAttr('vertPos', 3, chunk.invisibleBlockBuffer.position)
+      this.setVertexAttr('vertColor', 3, chunk.invisibleBlockBuffer.color)
+      this.gl.drawArrays(this.gl.LINES, 0, chunk.invisibleBlockBuffer.length)
+    })))
   }
 
   public drawStructure(viewMatrix: mat4) {